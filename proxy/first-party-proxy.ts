@@ -0,0 +1,64 @@
+/**
+ * First-party collection proxy for the attribution tracker.
+ *
+ * Host this on your own domain (Cloudflare Workers, Deno Deploy, Vercel Edge
+ * or any runtime with the Fetch API), e.g. under `https://www.example.com/gt`,
+ * and point the tracker at it:
+ *
+ *   <script src="..." data-client-id="..." data-endpoint="https://www.example.com/gt"
+ *     data-first-party-mode data-cookie-domain=".example.com"></script>
+ *
+ * Requests are forwarded to `event-capture`, and the visitor cookie it sets
+ * comes back from your own domain, so browsers treat it as first-party.
+ */
+
+const UPSTREAM_ENDPOINT = 'https://ucczkgrnxvhxgnvrityk.supabase.co/functions/v1/event-capture';
+const BASE_PATH = '/gt';
+
+// Only the tracker's routes are forwarded
+const FORWARDED_PATHS = ['', '/v1/events', '/v1/batch', '/batch', '/visitor', '/triggers', '/config'];
+
+export function createFirstPartyProxy(upstream = UPSTREAM_ENDPOINT, basePath = BASE_PATH) {
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    if (!url.pathname.startsWith(basePath)) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const path = url.pathname.slice(basePath.length).replace(/\/+$/, '');
+    if (!FORWARDED_PATHS.includes(path)) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const headers = new Headers();
+    // event-capture checks the Origin against the client's registered domain
+    ['Content-Type', 'Cookie', 'User-Agent', 'Origin'].forEach(name => {
+      const value = req.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    const clientIp = req.headers.get('CF-Connecting-IP') || req.headers.get('X-Forwarded-For');
+    if (clientIp) headers.set('X-Forwarded-For', clientIp);
+
+    const upstreamResponse = await fetch(`${upstream}${path}${url.search}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : await req.arrayBuffer()
+    });
+
+    // Same origin as the page, so no CORS headers are needed on the way back
+    const responseHeaders = new Headers();
+    ['Content-Type', 'Cache-Control', 'Set-Cookie'].forEach(name => {
+      const value = upstreamResponse.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    });
+
+    return new Response(upstreamResponse.body, {
+      status: upstreamResponse.status,
+      headers: responseHeaders
+    });
+  };
+}
+
+export default {
+  fetch: createFirstPartyProxy()
+};
@@ -1,23 +1,74 @@
+import { gzipSync } from 'node:zlib';
 import typescript from '@rollup/plugin-typescript';
 import terser from '@rollup/plugin-terser';
 import resolve from '@rollup/plugin-node-resolve'; // Import the resolve plugin
 
-export default {
-  input: 'src/tracker/index.ts',
-  output: {
-    file: 'dist/tracker.js',
-    format: 'iife',
-    name: 'AttributionTracker',
-    sourcemap: true
-  },
-  plugins: [
-    resolve(), // Add the resolve plugin
-    typescript({
-      tsconfig: './tsconfig.tracker.json',
-      compilerOptions: {
-        declaration: false,
-      }
-    }),
-    terser()
-  ]
+// Optional features, each built to dist/tracker-<name>.js and loaded by the
+// core on demand (see src/tracker/lazy.ts)
+const FEATURES = ['forms', 'datalayer', 'inspector'];
+
+// Gzipped size limits in bytes. The build fails when a bundle goes over
+const SIZE_BUDGETS = {
+  'tracker.js': 13 * 1024,
+  'tracker-forms.js': 1024,
+  'tracker-datalayer.js': 1.5 * 1024,
+  'tracker-inspector.js': 3 * 1024
 };
+
+const formatSize = bytes => `${(bytes / 1024).toFixed(2)} kB`;
+
+// Reports each bundle's minified and gzipped size and enforces SIZE_BUDGETS
+function sizeBudget() {
+  return {
+    name: 'size-budget',
+    generateBundle(_options, bundle) {
+      Object.values(bundle).forEach(chunk => {
+        if (chunk.type !== 'chunk') return;
+
+        const size = Buffer.byteLength(chunk.code);
+        const gzipped = gzipSync(chunk.code).length;
+        const budget = SIZE_BUDGETS[chunk.fileName];
+        console.log(`${chunk.fileName}: ${formatSize(size)}, ${formatSize(gzipped)} gzipped` +
+          (budget ? ` (budget ${formatSize(budget)})` : ''));
+
+        if (budget && gzipped > budget) {
+          this.error(`${chunk.fileName} is ${formatSize(gzipped)} gzipped, over its ${formatSize(budget)} budget`);
+        }
+      });
+    }
+  };
+}
+
+const plugins = () => [
+  resolve(), // Add the resolve plugin
+  typescript({
+    tsconfig: './tsconfig.tracker.json',
+    compilerOptions: {
+      declaration: false,
+    }
+  }),
+  terser(),
+  sizeBudget()
+];
+
+export default [
+  {
+    input: 'src/tracker/index.ts',
+    output: {
+      file: 'dist/tracker.js',
+      format: 'iife',
+      name: 'AttributionTracker',
+      sourcemap: true
+    },
+    plugins: plugins()
+  },
+  ...FEATURES.map(name => ({
+    input: `src/tracker/features/${name}.ts`,
+    output: {
+      file: `dist/tracker-${name}.js`,
+      format: 'iife',
+      sourcemap: true
+    },
+    plugins: plugins()
+  }))
+];
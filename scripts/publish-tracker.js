@@ -0,0 +1,68 @@
+// Copies the tracker bundles built by rollup into serve-tracker as an
+// immutable version and records their SRI hashes in the manifest.
+//
+//   node scripts/publish-tracker.js [--no-latest]
+//
+// The version comes from src/tracker/version.ts. A published version is
+// never overwritten with different files; bump the version instead.
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const DIST_DIR = 'dist';
+const SERVE_DIR = 'supabase/functions/serve-tracker';
+const MANIFEST_PATH = join(SERVE_DIR, 'manifest.json');
+const BUNDLE_PATTERN = /^tracker(-[a-z]+)?\.js$/;
+
+const integrity = content => `sha384-${createHash('sha384').update(content).digest('base64')}`;
+
+function readVersion() {
+  const source = readFileSync('src/tracker/version.ts', 'utf8');
+  const match = source.match(/TRACKER_VERSION = '(\d+\.\d+\.\d+)'/);
+  if (!match) {
+    throw new Error('TRACKER_VERSION not found in src/tracker/version.ts');
+  }
+  return match[1];
+}
+
+function readManifest() {
+  if (!existsSync(MANIFEST_PATH)) {
+    return { latest: null, versions: {} };
+  }
+  return JSON.parse(readFileSync(MANIFEST_PATH, 'utf8'));
+}
+
+const version = readVersion();
+const manifest = readManifest();
+const bundles = readdirSync(DIST_DIR).filter(file => BUNDLE_PATTERN.test(file)).sort();
+if (!bundles.includes('tracker.js')) {
+  throw new Error(`${DIST_DIR}/tracker.js not found, run rollup first`);
+}
+
+const files = {};
+bundles.forEach(file => {
+  files[file] = integrity(readFileSync(join(DIST_DIR, file)));
+});
+
+const published = manifest.versions[version];
+if (published) {
+  if (JSON.stringify(published.files) !== JSON.stringify(files)) {
+    throw new Error(`Tracker ${version} is already published with different files, bump TRACKER_VERSION`);
+  }
+  console.log(`Tracker ${version} is already published`);
+} else {
+  const versionDir = join(SERVE_DIR, 'versions', version);
+  mkdirSync(versionDir, { recursive: true });
+  bundles.forEach(file => {
+    writeFileSync(join(versionDir, file), readFileSync(join(DIST_DIR, file)));
+  });
+  manifest.versions[version] = { released_at: new Date().toISOString(), files };
+  console.log(`Published tracker ${version}`);
+}
+
+if (!process.argv.includes('--no-latest')) {
+  manifest.latest = version;
+}
+writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+
+Object.entries(files).forEach(([file, hash]) => console.log(`  ${file} ${hash}`));
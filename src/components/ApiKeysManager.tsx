@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { Copy, Key, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { ApiKey, ApiKeyScope } from '../types';
+import { API_KEY_SCOPES } from '../lib/apiKeys';
+
+interface ApiKeysManagerProps {
+  apiKeys: ApiKey[];
+  onCreate: (name: string, scopes: ApiKeyScope[]) => Promise<string>;
+  onRotate: (apiKey: ApiKey) => Promise<string>;
+  onRevoke: (keyId: string) => Promise<void>;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : 'Never';
+
+const ApiKeysManager: React.FC<ApiKeysManagerProps> = ({ apiKeys, onCreate, onRotate, onRevoke }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['ingest']);
+  const [newKey, setNewKey] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeKeys = apiKeys.filter(apiKey => !apiKey.revoked_at);
+
+  const showNewKey = (keyName: string, key: string) => {
+    setNewKey({ name: keyName, key });
+    setCopied(false);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current =>
+      current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setActionError('Name is required');
+      return;
+    }
+    if (scopes.length === 0) {
+      setActionError('Select at least one scope');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setActionError(null);
+      const key = await onCreate(name.trim(), scopes);
+      showNewKey(name.trim(), key);
+      setName('');
+      setScopes(['ingest']);
+      setIsAdding(false);
+    } catch (error: any) {
+      setActionError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRotate = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Rotate "${apiKey.name}"? The current key stops working immediately.`)) return;
+
+    try {
+      setActionError(null);
+      showNewKey(apiKey.name, await onRotate(apiKey));
+    } catch (error: any) {
+      setActionError(error.message);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Requests using it will be refused.`)) return;
+
+    try {
+      setActionError(null);
+      await onRevoke(apiKey.id);
+    } catch (error: any) {
+      setActionError(error.message);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey.key);
+    setCopied(true);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">API Keys</h2>
+          <p className="text-sm text-gray-500">
+            For server-side requests, sent in the x-api-key header. Keys are stored hashed and shown only once
+          </p>
+        </div>
+        {!isAdding && (
+          <button
+            type="button"
+            onClick={() => setIsAdding(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus size={16} className="mr-2" />
+            New Key
+          </button>
+        )}
+      </div>
+
+      {actionError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{actionError}</p>
+        </div>
+      )}
+
+      {newKey && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-800 mb-2">
+            New key for <strong>{newKey.name}</strong>. Copy it now, it will not be shown again.
+          </p>
+          <div className="flex">
+            <input
+              type="text"
+              value={newKey.key}
+              readOnly
+              className="flex-1 min-w-0 block w-full px-3 py-2 rounded-md border border-gray-300 bg-white font-mono text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="ml-3 inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Copy size={16} className="mr-2" />
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={() => setNewKey(null)}
+            className="mt-2 text-sm text-green-700 hover:text-green-900"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {isAdding && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-md space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Order backend"
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Scopes</label>
+            <div className="mt-1 space-y-1">
+              {API_KEY_SCOPES.map(({ scope, label, description }) => (
+                <label key={scope} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-medium mr-1">{label}</span>
+                  <span className="text-gray-500">- {description}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setIsAdding(false);
+                setActionError(null);
+              }}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Key size={16} className="mr-2" />
+              {isSaving ? 'Creating...' : 'Create Key'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {activeKeys.length === 0 ? (
+        <p className="text-sm text-gray-500">No API keys yet. Server-side requests will be refused until one is created.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="pb-2 pr-4 font-medium">Name</th>
+              <th className="pb-2 pr-4 font-medium">Key</th>
+              <th className="pb-2 pr-4 font-medium">Scopes</th>
+              <th className="pb-2 pr-4 font-medium">Created</th>
+              <th className="pb-2 pr-4 font-medium">Last Used</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {activeKeys.map(apiKey => (
+              <tr key={apiKey.id}>
+                <td className="py-2 pr-4 text-gray-800">{apiKey.name}</td>
+                <td className="py-2 pr-4 font-mono text-gray-600">{apiKey.key_prefix}…</td>
+                <td className="py-2 pr-4">
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <span key={scope} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs">
+                        {scope}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="py-2 pr-4 text-gray-600">{formatDate(apiKey.created_at)}</td>
+                <td className="py-2 pr-4 text-gray-600">{formatDate(apiKey.last_used_at)}</td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => handleRotate(apiKey)}
+                    title="Rotate"
+                    className="p-1 text-gray-400 hover:text-blue-600"
+                  >
+                    <RefreshCw size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(apiKey)}
+                    title="Revoke"
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeysManager;
@@ -3,7 +3,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Plus, Trash2, Save, AlertCircle } from 'lucide-react';
-import { AttributionModel, AttributionModelData, AttributionModelSettings } from '../types';
+import { AttributionModel, AttributionModelData, AttributionModelSettings, ChannelGroup } from '../types';
+import { DEFAULT_CHANNEL_GROUP_COLORS, getChannelGroupColor } from '../lib/channelGroups';
 
 const modelSettingsSchema = z.object({
   lookback_window_days: z.number().min(1).max(90),
@@ -12,7 +13,10 @@ const modelSettingsSchema = z.object({
   last_touch_weight: z.number().min(0).max(1).optional(),
   middle_touch_weight: z.number().min(0).max(1).optional(),
   min_touches_required: z.number().min(1).max(10).optional(),
-  custom_weights: z.record(z.string(), z.number().min(0).max(1)).optional()
+  custom_weights: z.record(z.string(), z.number().min(0).max(1)).optional(),
+  channel_weights: z.record(z.string(), z.number().min(0).max(10)).optional(),
+  exclude_bounced_sessions: z.boolean().optional(),
+  min_session_duration: z.number().min(0).optional()
 });
 
 const attributionModelSchema = z.object({
@@ -24,6 +28,7 @@ const attributionModelSchema = z.object({
 interface AttributionModelManagerProps {
   clientId: string;
   models: AttributionModelData[];
+  channelGroups?: ChannelGroup[];
   onSave: (model: AttributionModelData) => void;
   onDelete: (modelId: string) => void;
 }
@@ -31,6 +36,7 @@ interface AttributionModelManagerProps {
 const AttributionModelManager: React.FC<AttributionModelManagerProps> = ({
   clientId,
   models,
+  channelGroups = [],
   onSave,
   onDelete
 }) => {
@@ -49,13 +55,33 @@ const AttributionModelManager: React.FC<AttributionModelManagerProps> = ({
         first_touch_weight: 0.4,
         last_touch_weight: 0.4,
         middle_touch_weight: 0.2,
-        min_touches_required: 2
+        min_touches_required: 2,
+        exclude_bounced_sessions: false,
+        min_session_duration: 0,
+        channel_weights: {} as Record<string, number>
       },
       is_active: true
     }
   });
 
   const selectedModelType = watch('name');
+  const channelWeights = watch('settings.channel_weights') || {};
+
+  // Client groups first, then the defaults traffic falls back to
+  const channelGroupNames = [
+    ...channelGroups.map(group => group.name),
+    ...Object.keys(DEFAULT_CHANNEL_GROUP_COLORS).filter(name => !channelGroups.some(group => group.name === name))
+  ];
+
+  const setChannelWeight = (name: string, value: string) => {
+    const next = { ...channelWeights };
+    if (value === '') {
+      delete next[name];
+    } else {
+      next[name] = Number(value);
+    }
+    setValue('settings.channel_weights', next);
+  };
 
   const handleCreateNew = () => {
     setEditingModel({
@@ -214,6 +240,64 @@ const AttributionModelManager: React.FC<AttributionModelManagerProps> = ({
             </p>
           )}
         </div>
+
+        <div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              {...register('settings.exclude_bounced_sessions')}
+              className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Exclude touchpoints from bounced sessions</span>
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Minimum Session Duration (seconds)</label>
+          <input
+            type="number"
+            {...register('settings.min_session_duration', {
+              setValueAs: (value) => value === '' ? 0 : Number(value)
+            })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          {errors.settings?.min_session_duration && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors.settings.min_session_duration.message as string}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Channel Weights</label>
+          <p className="mt-1 text-xs text-gray-500">
+            Scales each channel group's share of credit. Blank counts as 1; 0 leaves the group out of attribution
+          </p>
+          <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-2 max-h-48 overflow-y-auto">
+            {channelGroupNames.map(name => (
+              <div key={name} className="flex items-center justify-between">
+                <span className="flex items-center text-sm text-gray-700">
+                  <span
+                    className="w-2 h-2 rounded-full mr-2"
+                    style={{ backgroundColor: getChannelGroupColor(name, channelGroups) }}
+                  />
+                  {name}
+                </span>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={channelWeights[name] ?? ''}
+                  onChange={(e) => setChannelWeight(name, e.target.value)}
+                  className="w-20 rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+          {errors.settings?.channel_weights && (
+            <p className="mt-1 text-sm text-red-600">Channel weights must be between 0 and 10</p>
+          )}
+        </div>
       </div>
     );
   };
@@ -267,6 +351,14 @@ const AttributionModelManager: React.FC<AttributionModelManagerProps> = ({
                   {model.settings.first_touch_weight && (
                     <p>First Touch: {model.settings.first_touch_weight * 100}%</p>
                   )}
+                  {model.settings.channel_weights && Object.keys(model.settings.channel_weights).length > 0 && (
+                    <p>
+                      Channel Weights:{' '}
+                      {Object.entries(model.settings.channel_weights)
+                        .map(([name, weight]) => `${name} ×${weight}`)
+                        .join(', ')}
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex space-x-2">
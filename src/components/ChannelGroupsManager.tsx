@@ -0,0 +1,389 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, RefreshCw, X } from 'lucide-react';
+import { ChannelGroup, ChannelGroupCondition, ChannelGroupField, ChannelGroupOperator } from '../types';
+
+interface ChannelGroupsManagerProps {
+  groups: ChannelGroup[];
+  onSave: (group: ChannelGroup) => Promise<void>;
+  onDelete: (groupId: string) => Promise<void>;
+  onReapply: () => Promise<number>;
+}
+
+const fields: { value: ChannelGroupField; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'channel', label: 'Channel' },
+  { value: 'referrer', label: 'Referrer' }
+];
+
+const operators: { value: ChannelGroupOperator; label: string; placeholder: string }[] = [
+  { value: 'equals', label: 'equals', placeholder: 'newsletter' },
+  { value: 'in', label: 'is one of', placeholder: 'facebook, instagram, tiktok' },
+  { value: 'contains', label: 'contains', placeholder: 'brand' },
+  { value: 'matches', label: 'matches regex', placeholder: 'cpc|paid' }
+];
+
+const getOperator = (operator: ChannelGroupOperator) =>
+  operators.find(option => option.value === operator) || operators[0];
+
+const formatValue = (value: string | string[]) =>
+  Array.isArray(value) ? value.join(', ') : value;
+
+// The `in` operator is edited as a comma-separated list
+const parseValue = (operator: ChannelGroupOperator, value: string): string | string[] =>
+  operator === 'in'
+    ? value.split(',').map(item => item.trim()).filter(Boolean)
+    : value;
+
+const ChannelGroupsManager: React.FC<ChannelGroupsManagerProps> = ({
+  groups,
+  onSave,
+  onDelete,
+  onReapply
+}) => {
+  const [editingGroup, setEditingGroup] = useState<ChannelGroup | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReapplying, setIsReapplying] = useState(false);
+  const [reapplyMessage, setReapplyMessage] = useState<string | null>(null);
+
+  const handleCreateNew = () => {
+    setEditingGroup({
+      id: '',
+      name: '',
+      color: '#4267B2',
+      conditions: [{ field: 'source', operator: 'in', value: [] }],
+      priority: 0,
+      is_active: true
+    });
+    setSaveError(null);
+    setDeleteError(null);
+  };
+
+  const updateCondition = (index: number, changes: Partial<ChannelGroupCondition>) => {
+    if (!editingGroup) return;
+    setEditingGroup({
+      ...editingGroup,
+      conditions: editingGroup.conditions.map((condition, i) => {
+        if (i !== index) return condition;
+        const updated = { ...condition, ...changes };
+        // Keep the value's shape in line with the operator
+        return { ...updated, value: parseValue(updated.operator, formatValue(updated.value)) };
+      })
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingGroup) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+
+      if (!editingGroup.name.trim()) {
+        throw new Error('Name is required');
+      }
+      if (editingGroup.conditions.length === 0) {
+        throw new Error('Add at least one condition');
+      }
+      editingGroup.conditions.forEach(condition => {
+        if (formatValue(condition.value).trim() === '') {
+          throw new Error('Every condition needs a value');
+        }
+        if (condition.operator === 'matches') {
+          try {
+            new RegExp(condition.value as string);
+          } catch {
+            throw new Error(`"${condition.value}" is not a valid regular expression`);
+          }
+        }
+      });
+
+      await onSave({
+        ...editingGroup,
+        name: editingGroup.name.trim(),
+        conditions: editingGroup.conditions.map(condition => ({
+          ...condition,
+          value: parseValue(condition.operator, formatValue(condition.value).trim())
+        }))
+      });
+      setEditingGroup(null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (groupId: string) => {
+    try {
+      setDeleteError(null);
+      await onDelete(groupId);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    }
+  };
+
+  const handleReapply = async () => {
+    try {
+      setIsReapplying(true);
+      setDeleteError(null);
+      setReapplyMessage(null);
+      const updated = await onReapply();
+      setReapplyMessage(`Regrouped ${updated.toLocaleString()} events`);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    } finally {
+      setIsReapplying(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Channel Groups</h2>
+          <p className="text-sm text-gray-500">
+            Group traffic for dashboard breakdowns and attribution channel weights. Traffic no group matches falls back to its channel
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleReapply}
+            disabled={isReapplying}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={`mr-2 ${isReapplying ? 'animate-spin' : ''}`} />
+            Reapply to History
+          </button>
+          <button
+            onClick={handleCreateNew}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus size={16} className="mr-2" />
+            New Group
+          </button>
+        </div>
+      </div>
+
+      {deleteError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{deleteError}</p>
+        </div>
+      )}
+
+      {reapplyMessage && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-700">{reapplyMessage}</p>
+        </div>
+      )}
+
+      {groups.length === 0 && (
+        <p className="text-sm text-gray-500">No channel groups defined yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {groups.map((group) => (
+          <div key={group.id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center">
+                  <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: group.color }} />
+                  <h3 className="text-md font-medium text-gray-900">{group.name}</h3>
+                  {group.is_active ? (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                      Active
+                    </span>
+                  ) : (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {group.conditions.map((condition, index) => (
+                    <span key={index}>
+                      {index > 0 && ' and '}
+                      {condition.field} {getOperator(condition.operator).label}{' '}
+                      <code className="bg-gray-100 px-1 py-0.5 rounded text-xs">{formatValue(condition.value)}</code>
+                    </span>
+                  ))}
+                  {group.priority !== 0 && ` (priority ${group.priority})`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => {
+                    setEditingGroup(group);
+                    setSaveError(null);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(group.id)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingGroup && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingGroup.id ? 'Edit Channel Group' : 'New Channel Group'}
+            </h3>
+
+            {saveError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{saveError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-4">
+                <div className="col-span-3">
+                  <label className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    type="text"
+                    value={editingGroup.name}
+                    onChange={(e) => setEditingGroup({ ...editingGroup, name: e.target.value })}
+                    placeholder="Paid Social"
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Colour</label>
+                  <input
+                    type="color"
+                    value={editingGroup.color}
+                    onChange={(e) => setEditingGroup({ ...editingGroup, color: e.target.value })}
+                    className="mt-1 block w-full h-9 rounded-md border border-gray-300"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Conditions (all must match)</label>
+                <div className="space-y-2">
+                  {editingGroup.conditions.map((condition, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <select
+                        value={condition.field}
+                        onChange={(e) => updateCondition(index, { field: e.target.value as ChannelGroupField })}
+                        className="rounded-md border border-gray-300 px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {fields.map(field => (
+                          <option key={field.value} value={field.value}>{field.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(index, { operator: e.target.value as ChannelGroupOperator })}
+                        className="rounded-md border border-gray-300 px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {operators.map(operator => (
+                          <option key={operator.value} value={operator.value}>{operator.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={formatValue(condition.value)}
+                        onChange={(e) => setEditingGroup({
+                          ...editingGroup,
+                          conditions: editingGroup.conditions.map((item, i) =>
+                            i === index ? { ...item, value: e.target.value } : item
+                          )
+                        })}
+                        onBlur={() => updateCondition(index, {})}
+                        placeholder={getOperator(condition.operator).placeholder}
+                        className="flex-1 rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setEditingGroup({
+                          ...editingGroup,
+                          conditions: editingGroup.conditions.filter((_, i) => i !== index)
+                        })}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingGroup({
+                    ...editingGroup,
+                    conditions: [...editingGroup.conditions, { field: 'medium', operator: 'matches', value: '' }]
+                  })}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  + Add condition
+                </button>
+                <p className="mt-1 text-xs text-gray-500">
+                  Matching ignores case. Channel is the built-in classification, e.g. organic_search or ai_assistant
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Priority</label>
+                <input
+                  type="number"
+                  value={editingGroup.priority}
+                  onChange={(e) => setEditingGroup({ ...editingGroup, priority: parseInt(e.target.value, 10) || 0 })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Groups with a higher priority are checked first
+                </p>
+              </div>
+
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editingGroup.is_active}
+                    onChange={(e) => setEditingGroup({ ...editingGroup, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingGroup(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Group'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelGroupsManager;
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { Channel, ChannelRule } from '../types';
+
+interface ChannelRulesManagerProps {
+  rules: ChannelRule[];
+  onSave: (rule: ChannelRule) => Promise<void>;
+  onDelete: (ruleId: string) => Promise<void>;
+}
+
+const channels: { value: Channel; label: string; medium: string }[] = [
+  { value: 'organic_search', label: 'Organic Search', medium: 'organic' },
+  { value: 'organic_social', label: 'Organic Social', medium: 'social' },
+  { value: 'ai_assistant', label: 'AI Assistant', medium: 'ai' },
+  { value: 'email', label: 'Email', medium: 'email' },
+  { value: 'referral', label: 'Referral', medium: 'referral' },
+  { value: 'paid_search', label: 'Paid Search', medium: 'cpc' },
+  { value: 'paid_social', label: 'Paid Social', medium: 'paid_social' },
+  { value: 'display', label: 'Display', medium: 'display' },
+  { value: 'affiliate', label: 'Affiliate', medium: 'affiliate' },
+  { value: 'internal', label: 'Internal', medium: 'internal' },
+  { value: 'direct', label: 'Direct', medium: '(none)' },
+  { value: 'other', label: 'Other', medium: 'other' }
+];
+
+const getChannel = (channel: Channel) =>
+  channels.find(option => option.value === channel) || channels[0];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*(\.\*)?$/;
+
+const ChannelRulesManager: React.FC<ChannelRulesManagerProps> = ({
+  rules,
+  onSave,
+  onDelete
+}) => {
+  const [editingRule, setEditingRule] = useState<ChannelRule | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreateNew = () => {
+    setEditingRule({
+      id: '',
+      domain: '',
+      source: '',
+      medium: 'referral',
+      channel: 'referral',
+      priority: 0,
+      is_active: true
+    });
+    setSaveError(null);
+    setDeleteError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingRule) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+
+      const domain = editingRule.domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+      if (!DOMAIN_PATTERN.test(domain)) {
+        throw new Error('Domain must be a hostname like example.com or example.*');
+      }
+      if (!editingRule.source.trim()) {
+        throw new Error('Source is required');
+      }
+      if (!editingRule.medium.trim()) {
+        throw new Error('Medium is required');
+      }
+
+      await onSave({
+        ...editingRule,
+        domain,
+        source: editingRule.source.trim(),
+        medium: editingRule.medium.trim()
+      });
+      setEditingRule(null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      setDeleteError(null);
+      await onDelete(ruleId);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Channel Rules</h2>
+          <p className="text-sm text-gray-500">
+            Classify untagged traffic by referrer. Your rules are checked before the built-in search, social, email and AI assistant domains
+          </p>
+        </div>
+        <button
+          onClick={handleCreateNew}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus size={16} className="mr-2" />
+          New Rule
+        </button>
+      </div>
+
+      {deleteError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{deleteError}</p>
+        </div>
+      )}
+
+      {rules.length === 0 && (
+        <p className="text-sm text-gray-500">No custom channel rules defined yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {rules.map((rule) => (
+          <div key={rule.id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center">
+                  <h3 className="text-md font-medium text-gray-900 font-mono">{rule.domain}</h3>
+                  {rule.is_active ? (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                      Active
+                    </span>
+                  ) : (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {getChannel(rule.channel).label}
+                  {' · '}
+                  <span className="font-mono text-xs">{rule.source} / {rule.medium}</span>
+                  {rule.priority !== 0 && ` (priority ${rule.priority})`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => {
+                    setEditingRule(rule);
+                    setSaveError(null);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingRule && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingRule.id ? 'Edit Channel Rule' : 'New Channel Rule'}
+            </h3>
+
+            {saveError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{saveError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Referrer Domain</label>
+                <input
+                  type="text"
+                  value={editingRule.domain}
+                  onChange={(e) => setEditingRule({ ...editingRule, domain: e.target.value })}
+                  placeholder="partner-blog.com"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Subdomains match too. End with .* to match any TLD, e.g. google.*
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Channel</label>
+                <select
+                  value={editingRule.channel}
+                  onChange={(e) => {
+                    const channel = e.target.value as Channel;
+                    setEditingRule({ ...editingRule, channel, medium: getChannel(channel).medium });
+                  }}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {channels.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Source</label>
+                  <input
+                    type="text"
+                    value={editingRule.source}
+                    onChange={(e) => setEditingRule({ ...editingRule, source: e.target.value })}
+                    placeholder="partner_blog"
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Medium</label>
+                  <input
+                    type="text"
+                    value={editingRule.medium}
+                    onChange={(e) => setEditingRule({ ...editingRule, medium: e.target.value })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Priority</label>
+                <input
+                  type="number"
+                  value={editingRule.priority}
+                  onChange={(e) => setEditingRule({ ...editingRule, priority: parseInt(e.target.value, 10) || 0 })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Rules with a higher priority are checked first
+                </p>
+              </div>
+
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editingRule.is_active}
+                    onChange={(e) => setEditingRule({ ...editingRule, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingRule(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelRulesManager;
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { ConversionTrigger, ConversionTriggerType } from '../types';
+
+interface ConversionTriggersManagerProps {
+  triggers: ConversionTrigger[];
+  onSave: (trigger: ConversionTrigger) => Promise<void>;
+  onDelete: (triggerId: string) => Promise<void>;
+}
+
+const triggerTypes: { value: ConversionTriggerType; label: string; matchLabel: string; placeholder: string }[] = [
+  { value: 'url_match', label: 'Page URL', matchLabel: 'URL pattern', placeholder: '/thank-you*' },
+  { value: 'click', label: 'Element click', matchLabel: 'CSS selector', placeholder: '.signup-button' },
+  { value: 'form_submit', label: 'Form submit', matchLabel: 'Form ID', placeholder: 'contact-form' },
+  { value: 'datalayer_event', label: 'dataLayer event', matchLabel: 'Event name', placeholder: 'generate_lead' }
+];
+
+const getTriggerType = (type: ConversionTriggerType) =>
+  triggerTypes.find(triggerType => triggerType.value === type) || triggerTypes[0];
+
+const ConversionTriggersManager: React.FC<ConversionTriggersManagerProps> = ({
+  triggers,
+  onSave,
+  onDelete
+}) => {
+  const [editingTrigger, setEditingTrigger] = useState<ConversionTrigger | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCreateNew = () => {
+    setEditingTrigger({
+      id: '',
+      name: '',
+      trigger_type: 'url_match',
+      match_value: '',
+      conversion_type: '',
+      value: null,
+      currency: null,
+      is_active: true
+    });
+    setSaveError(null);
+    setDeleteError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingTrigger) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+
+      if (!editingTrigger.name.trim()) {
+        throw new Error('Name is required');
+      }
+      if (!editingTrigger.match_value.trim()) {
+        throw new Error(`${getTriggerType(editingTrigger.trigger_type).matchLabel} is required`);
+      }
+      if (!editingTrigger.conversion_type.trim()) {
+        throw new Error('Conversion type is required');
+      }
+      if (editingTrigger.trigger_type === 'click') {
+        try {
+          document.querySelector(editingTrigger.match_value);
+        } catch {
+          throw new Error('CSS selector is not valid');
+        }
+      }
+
+      await onSave({
+        ...editingTrigger,
+        name: editingTrigger.name.trim(),
+        match_value: editingTrigger.match_value.trim(),
+        conversion_type: editingTrigger.conversion_type.trim(),
+        currency: editingTrigger.currency ? editingTrigger.currency.trim().toUpperCase() : null
+      });
+      setEditingTrigger(null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (triggerId: string) => {
+    try {
+      setDeleteError(null);
+      await onDelete(triggerId);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Conversion Triggers</h2>
+          <p className="text-sm text-gray-500">
+            Rules the tracker evaluates on the page to record conversions without code changes
+          </p>
+        </div>
+        <button
+          onClick={handleCreateNew}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus size={16} className="mr-2" />
+          New Trigger
+        </button>
+      </div>
+
+      {deleteError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{deleteError}</p>
+        </div>
+      )}
+
+      {triggers.length === 0 && (
+        <p className="text-sm text-gray-500">No conversion triggers defined yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {triggers.map((trigger) => (
+          <div key={trigger.id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center">
+                  <h3 className="text-md font-medium text-gray-900">{trigger.name}</h3>
+                  {trigger.is_active ? (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                      Active
+                    </span>
+                  ) : (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {getTriggerType(trigger.trigger_type).label}:{' '}
+                  <code className="bg-gray-100 px-1 py-0.5 rounded text-xs">{trigger.match_value}</code>
+                  {' → '}
+                  <span className="font-mono text-xs">{trigger.conversion_type}</span>
+                  {trigger.value != null && ` (${trigger.value} ${trigger.currency || ''})`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => {
+                    setEditingTrigger(trigger);
+                    setSaveError(null);
+                  }}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(trigger.id)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingTrigger && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingTrigger.id ? 'Edit Conversion Trigger' : 'New Conversion Trigger'}
+            </h3>
+
+            {saveError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{saveError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  value={editingTrigger.name}
+                  onChange={(e) => setEditingTrigger({ ...editingTrigger, name: e.target.value })}
+                  placeholder="Thank you page"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Trigger</label>
+                <select
+                  value={editingTrigger.trigger_type}
+                  onChange={(e) => setEditingTrigger({ ...editingTrigger, trigger_type: e.target.value as ConversionTriggerType })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {triggerTypes.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {getTriggerType(editingTrigger.trigger_type).matchLabel}
+                </label>
+                <input
+                  type="text"
+                  value={editingTrigger.match_value}
+                  onChange={(e) => setEditingTrigger({ ...editingTrigger, match_value: e.target.value })}
+                  placeholder={getTriggerType(editingTrigger.trigger_type).placeholder}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {editingTrigger.trigger_type === 'url_match' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Use * as a wildcard. Patterns without https:// match the path and query string.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Conversion Type</label>
+                <input
+                  type="text"
+                  value={editingTrigger.conversion_type}
+                  onChange={(e) => setEditingTrigger({ ...editingTrigger, conversion_type: e.target.value })}
+                  placeholder="signup"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Value</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={editingTrigger.value ?? ''}
+                    onChange={(e) => setEditingTrigger({
+                      ...editingTrigger,
+                      value: e.target.value === '' ? null : parseFloat(e.target.value)
+                    })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Currency</label>
+                  <input
+                    type="text"
+                    value={editingTrigger.currency || ''}
+                    onChange={(e) => setEditingTrigger({ ...editingTrigger, currency: e.target.value || null })}
+                    placeholder="USD"
+                    maxLength={3}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editingTrigger.is_active}
+                    onChange={(e) => setEditingTrigger({ ...editingTrigger, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingTrigger(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Trigger'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversionTriggersManager;
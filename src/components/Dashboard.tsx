@@ -8,6 +8,7 @@ import SourcesTable from './dashboard/SourcesTable';
 import TimeframeSelector from './dashboard/TimeframeSelector';
 import ModelSelector from './dashboard/ModelSelector';
 import { supabase } from '../lib/supabase';
+import { getChannelGroupColor } from '../lib/channelGroups';
 
 interface DashboardProps {
   clientId: string;
@@ -113,7 +114,7 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
       // Fetch attribution results
       const { data: attributionResults, error: attributionError } = await supabase
         .from('attribution_results')
-        .select('source, credit')
+        .select('source, channel_group, credit, timestamp')
         .eq('client_id', clientId)
         .eq('attribution_model', selectedModel.id)
         .gte('timestamp', startDate.toISOString())
@@ -121,6 +122,14 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
 
       if (attributionError) throw attributionError;
 
+      // Fetch channel groups for their colours
+      const { data: channelGroups, error: channelGroupsError } = await supabase
+        .from('channel_groups')
+        .select('name, color')
+        .eq('client_id', clientId);
+
+      if (channelGroupsError) throw channelGroupsError;
+
       // Calculate metrics
       const totalVisitors = visitors?.length || 0;
       const totalConversions = conversions?.length || 0;
@@ -145,11 +154,23 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
         share: (data.revenue / attributedRevenue) * 100
       }));
 
-      // Transform data for charts
-      const channels = sources.map(source => ({
-        name: source.source.charAt(0).toUpperCase() + source.source.slice(1),
-        value: source.share,
-        color: getSourceColor(source.source)
+      // Calculate channel group distribution, overall and per month
+      const groupRevenue = new Map<string, number>();
+      const monthlyRevenue = new Map<string, { month: string; [group: string]: number | string }>();
+      attributionResults?.forEach(result => {
+        const group = result.channel_group || 'Other';
+        groupRevenue.set(group, (groupRevenue.get(group) || 0) + (result.credit || 0));
+
+        const month = format(new Date(result.timestamp), 'MMM yyyy');
+        const monthData = monthlyRevenue.get(month) || { month };
+        monthData[group] = ((monthData[group] as number) || 0) + (result.credit || 0);
+        monthlyRevenue.set(month, monthData);
+      });
+
+      const channels = Array.from(groupRevenue.entries()).map(([name, revenue]) => ({
+        name,
+        value: attributedRevenue > 0 ? Math.round((revenue / attributedRevenue) * 1000) / 10 : 0,
+        color: getChannelGroupColor(name, channelGroups || [])
       }));
 
       setData({
@@ -162,7 +183,7 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
         },
         sources,
         channels,
-        monthly: [] // This would require additional query for monthly breakdown
+        monthly: Array.from(monthlyRevenue.values())
       });
 
     } catch (err: any) {
@@ -172,18 +193,6 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
     }
   };
 
-  const getSourceColor = (source: string): string => {
-    const colors: Record<string, string> = {
-      facebook: '#4267B2',
-      google: '#DB4437',
-      direct: '#333333',
-      email: '#3AAEE0',
-      organic: '#28A745',
-      default: '#888888'
-    };
-    return colors[source] || colors.default;
-  };
-  
   // In a real app, we would fetch data when these change
   const handleTimeframeChange = (timeframe: string) => {
     setSelectedTimeframe(timeframe);
@@ -314,17 +323,15 @@ const Dashboard: React.FC<DashboardProps> = ({ clientId }) => {
           
           <div className="h-72">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={data.sources}>
+              <BarChart data={data.monthly}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} />
                 <XAxis dataKey="month" />
                 <YAxis tickFormatter={(value) => `$${value / 1000}k`} />
                 <Tooltip formatter={(value) => [`$${value}`, 'Revenue']} />
                 <Legend />
-                <Bar dataKey="facebook" name="Facebook" stackId="a" fill="#4267B2" />
-                <Bar dataKey="google" name="Google" stackId="a" fill="#DB4437" />
-                <Bar dataKey="direct" name="Direct" stackId="a" fill="#333333" />
-                <Bar dataKey="email" name="Email" stackId="a" fill="#3AAEE0" />
-                <Bar dataKey="organic" name="Organic" stackId="a" fill="#28A745" />
+                {data.channels.map(channel => (
+                  <Bar key={channel.name} dataKey={channel.name} name={channel.name} stackId="a" fill={channel.color} />
+                ))}
               </BarChart>
             </ResponsiveContainer>
           </div>
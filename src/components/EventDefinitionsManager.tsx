@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, X } from 'lucide-react';
+import { EventDefinition, EventPropertyType } from '../types';
+
+interface EventDefinitionsManagerProps {
+  definitions: EventDefinition[];
+  onSave: (definition: EventDefinition) => Promise<void>;
+  onDelete: (definitionId: string) => Promise<void>;
+}
+
+interface PropertyRow {
+  name: string;
+  type: EventPropertyType;
+}
+
+const EVENT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const RESERVED_EVENT_NAMES = ['page_view', 'conversion', 'user_engagement', 'identify'];
+const propertyTypes: EventPropertyType[] = ['string', 'number', 'boolean'];
+
+const EventDefinitionsManager: React.FC<EventDefinitionsManagerProps> = ({
+  definitions,
+  onSave,
+  onDelete
+}) => {
+  const [editingDefinition, setEditingDefinition] = useState<EventDefinition | null>(null);
+  const [properties, setProperties] = useState<PropertyRow[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (definition: EventDefinition) => {
+    setEditingDefinition(definition);
+    setProperties(
+      Object.entries(definition.property_types || {}).map(([name, type]) => ({ name, type }))
+    );
+    setSaveError(null);
+    setDeleteError(null);
+  };
+
+  const handleCreateNew = () => {
+    startEditing({
+      id: '',
+      name: '',
+      description: '',
+      property_types: {},
+      is_active: true
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingDefinition) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+
+      if (!EVENT_NAME_PATTERN.test(editingDefinition.name)) {
+        throw new Error('Event names must start with a letter and use lowercase letters, digits and underscores');
+      }
+      if (RESERVED_EVENT_NAMES.includes(editingDefinition.name)) {
+        throw new Error(`${editingDefinition.name} is reserved by the tracker`);
+      }
+
+      const propertyTypesMap: Record<string, EventPropertyType> = {};
+      properties.forEach(property => {
+        if (property.name.trim()) {
+          propertyTypesMap[property.name.trim()] = property.type;
+        }
+      });
+
+      await onSave({
+        ...editingDefinition,
+        property_types: propertyTypesMap
+      });
+      setEditingDefinition(null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (definitionId: string) => {
+    try {
+      setDeleteError(null);
+      await onDelete(definitionId);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Custom Events</h2>
+          <p className="text-sm text-gray-500">
+            Event types accepted from <code className="bg-gray-100 px-1 py-0.5 rounded text-xs">gTracker.track()</code> in addition to the built-in ones
+          </p>
+        </div>
+        <button
+          onClick={handleCreateNew}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus size={16} className="mr-2" />
+          New Event
+        </button>
+      </div>
+
+      {deleteError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{deleteError}</p>
+        </div>
+      )}
+
+      {definitions.length === 0 && (
+        <p className="text-sm text-gray-500">No custom events defined yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {definitions.map((definition) => (
+          <div key={definition.id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center">
+                  <h3 className="text-md font-medium text-gray-900 font-mono">{definition.name}</h3>
+                  {definition.is_active ? (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
+                      Active
+                    </span>
+                  ) : (
+                    <span className="ml-2 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                {definition.description && (
+                  <p className="mt-1 text-sm text-gray-500">{definition.description}</p>
+                )}
+                {Object.keys(definition.property_types || {}).length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {Object.entries(definition.property_types).map(([name, type]) => (
+                      <span key={name} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded font-mono">
+                        {name}: {type}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => startEditing(definition)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(definition.id)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingDefinition && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingDefinition.id ? 'Edit Custom Event' : 'New Custom Event'}
+            </h3>
+
+            {saveError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{saveError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Event Name</label>
+                <input
+                  type="text"
+                  value={editingDefinition.name}
+                  onChange={(e) => setEditingDefinition({ ...editingDefinition, name: e.target.value })}
+                  placeholder="video_played"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <input
+                  type="text"
+                  value={editingDefinition.description || ''}
+                  onChange={(e) => setEditingDefinition({ ...editingDefinition, description: e.target.value })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center">
+                  <label className="block text-sm font-medium text-gray-700">Properties</label>
+                  <button
+                    type="button"
+                    onClick={() => setProperties([...properties, { name: '', type: 'string' }])}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus size={14} className="mr-1" /> Add Property
+                  </button>
+                </div>
+                <div className="mt-2 space-y-2">
+                  {properties.map((property, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={property.name}
+                        onChange={(e) => setProperties(properties.map((p, i) => i === index ? { ...p, name: e.target.value } : p))}
+                        placeholder="property_name"
+                        className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <select
+                        value={property.type}
+                        onChange={(e) => setProperties(properties.map((p, i) => i === index ? { ...p, type: e.target.value as EventPropertyType } : p))}
+                        className="rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {propertyTypes.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setProperties(properties.filter((_, i) => i !== index))}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editingDefinition.is_active}
+                    onChange={(e) => setEditingDefinition({ ...editingDefinition, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingDefinition(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Event'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventDefinitionsManager;
@@ -0,0 +1,428 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Save } from 'lucide-react';
+import { EventDefinition, TrackerSettings } from '../types';
+import { ECOMMERCE_EVENT_TYPES } from '../../supabase/functions/_shared/tracker-config';
+
+type ConsentCategory = 'analytics' | 'ads' | 'identity';
+type ConsentDefault = '' | 'unknown' | 'granted' | 'denied';
+
+interface ConsentRow {
+  region: string;
+  analytics: ConsentDefault;
+  ads: ConsentDefault;
+  identity: ConsentDefault;
+}
+
+// An empty eventType ignores the GA4 event
+interface MappingRow {
+  eventName: string;
+  eventType: string;
+  conversionType: string;
+}
+
+interface TrackerConfigManagerProps {
+  settings: TrackerSettings | null;
+  eventDefinitions: EventDefinition[];
+  onSave: (settings: TrackerSettings) => Promise<void>;
+}
+
+const CONSENT_CATEGORIES: ConsentCategory[] = ['analytics', 'ads', 'identity'];
+const DOMAIN_PATTERN = /^\.?[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+const GA4_EVENT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/;
+
+const toConsentRows = (settings: TrackerSettings): ConsentRow[] =>
+  Object.entries(settings.consentDefaults || {}).map(([region, states]) => ({
+    region,
+    analytics: states.analytics || '',
+    ads: states.ads || '',
+    identity: states.identity || ''
+  }));
+
+const toMappingRows = (settings: TrackerSettings): MappingRow[] =>
+  Object.entries(settings.ecommerceMapping || {}).map(([eventName, mapping]) => ({
+    eventName,
+    eventType: mapping ? mapping.eventType : '',
+    conversionType: mapping ? mapping.conversionType || '' : ''
+  }));
+
+const parseDomains = (value: string) =>
+  value.split(/[\s,]+/).map(domain => domain.trim().toLowerCase()).filter(Boolean);
+
+const TrackerConfigManager: React.FC<TrackerConfigManagerProps> = ({ settings, eventDefinitions, onSave }) => {
+  const [consentRows, setConsentRows] = useState<ConsentRow[]>([]);
+  const [mappingRows, setMappingRows] = useState<MappingRow[]>([]);
+  const [cookieDomain, setCookieDomain] = useState('');
+  const [linkerDomains, setLinkerDomains] = useState('');
+  const [samplePercent, setSamplePercent] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const current = settings || {};
+    setConsentRows(toConsentRows(current));
+    setCookieDomain(current.cookieDomain || '');
+    setLinkerDomains((current.linkerDomains || []).join(', '));
+    setSamplePercent(current.sampleRate !== undefined ? String(Math.round(current.sampleRate * 1000) / 10) : '');
+    setMappingRows(toMappingRows(current));
+  }, [settings]);
+
+  const definedEventTypes = eventDefinitions.filter(definition => definition.is_active).map(definition => definition.name);
+
+  const updateConsentRow = (index: number, changes: Partial<ConsentRow>) => {
+    setConsentRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setSaved(false);
+  };
+
+  const updateMappingRow = (index: number, changes: Partial<MappingRow>) => {
+    setMappingRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    const next: TrackerSettings = {};
+
+    const consentDefaults: NonNullable<TrackerSettings['consentDefaults']> = {};
+    for (const row of consentRows) {
+      const region = row.region.trim() === 'default' ? 'default' : row.region.trim().toUpperCase();
+      if (!region) {
+        setSaveError('Every consent default needs a region code');
+        return;
+      }
+      if (consentDefaults[region]) {
+        setSaveError(`Region ${region} is listed twice`);
+        return;
+      }
+      const states: Partial<Record<ConsentCategory, Exclude<ConsentDefault, ''>>> = {};
+      CONSENT_CATEGORIES.forEach(category => {
+        if (row[category]) states[category] = row[category] as Exclude<ConsentDefault, ''>;
+      });
+      if (Object.keys(states).length > 0) {
+        consentDefaults[region] = states;
+      }
+    }
+    if (Object.keys(consentDefaults).length > 0) {
+      next.consentDefaults = consentDefaults;
+    }
+
+    if (cookieDomain.trim()) {
+      if (!DOMAIN_PATTERN.test(cookieDomain.trim())) {
+        setSaveError('Cookie domain must be a domain like .example.com');
+        return;
+      }
+      next.cookieDomain = cookieDomain.trim().toLowerCase();
+    }
+
+    const domains = parseDomains(linkerDomains);
+    const invalidDomain = domains.find(domain => !DOMAIN_PATTERN.test(domain));
+    if (invalidDomain) {
+      setSaveError(`Invalid cross-domain entry: ${invalidDomain}`);
+      return;
+    }
+    if (domains.length > 0) {
+      next.linkerDomains = domains;
+    }
+
+    if (samplePercent.trim()) {
+      const percent = Number(samplePercent);
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        setSaveError('Sampling must be a percentage between 0 and 100');
+        return;
+      }
+      if (percent < 100) {
+        next.sampleRate = percent / 100;
+      }
+    }
+
+    const ecommerceMapping: NonNullable<TrackerSettings['ecommerceMapping']> = {};
+    for (const row of mappingRows) {
+      const eventName = row.eventName.trim();
+      if (!GA4_EVENT_NAME_PATTERN.test(eventName)) {
+        setSaveError(`Invalid GA4 event name: ${eventName || '(empty)'}`);
+        return;
+      }
+      if (ecommerceMapping[eventName] !== undefined) {
+        setSaveError(`GA4 event ${eventName} is mapped twice`);
+        return;
+      }
+      if (!row.eventType) {
+        ecommerceMapping[eventName] = false;
+        continue;
+      }
+      if (!ECOMMERCE_EVENT_TYPES.includes(row.eventType) && !definedEventTypes.includes(row.eventType)) {
+        setSaveError(`Event type ${row.eventType} needs an active event definition`);
+        return;
+      }
+      ecommerceMapping[eventName] = row.eventType === 'conversion' && row.conversionType.trim()
+        ? { eventType: row.eventType, conversionType: row.conversionType.trim() }
+        : { eventType: row.eventType };
+    }
+    if (Object.keys(ecommerceMapping).length > 0) {
+      next.ecommerceMapping = ecommerceMapping;
+    }
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onSave(next);
+      setSaved(true);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Tracker Settings</h2>
+        <p className="text-sm text-gray-500">
+          Applied by the tracker at startup. Attributes on the script tag and gTrackerConfig on the page take precedence. Changes reach sites within five minutes
+        </p>
+      </div>
+
+      {saveError && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{saveError}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between items-center">
+            <label className="block text-sm font-medium text-gray-700">Consent Defaults</label>
+            <button
+              type="button"
+              onClick={() => {
+                setConsentRows(rows => [...rows, { region: rows.length === 0 ? 'default' : '', analytics: '', ads: '', identity: '' }]);
+                setSaved(false);
+              }}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus size={14} className="mr-1" />
+              Add Region
+            </button>
+          </div>
+          {consentRows.length === 0 ? (
+            <p className="mt-1 text-sm text-gray-500">Using the built-in defaults: denied in the EEA, granted elsewhere.</p>
+          ) : (
+            <table className="mt-2 min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-1 pr-2 font-medium">Region</th>
+                  {CONSENT_CATEGORIES.map(category => (
+                    <th key={category} className="pb-1 pr-2 font-medium">{category}</th>
+                  ))}
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {consentRows.map((row, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={row.region}
+                        onChange={(e) => updateConsentRow(index, { region: e.target.value })}
+                        placeholder="EEA"
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    {CONSENT_CATEGORIES.map(category => (
+                      <td key={category} className="py-1 pr-2">
+                        <select
+                          value={row[category]}
+                          onChange={(e) => updateConsentRow(index, { [category]: e.target.value as ConsentDefault })}
+                          className="block w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Built-in</option>
+                          <option value="granted">Granted</option>
+                          <option value="denied">Denied</option>
+                          <option value="unknown">Unknown</option>
+                        </select>
+                      </td>
+                    ))}
+                    <td className="py-1">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setConsentRows(rows => rows.filter((_, i) => i !== index));
+                          setSaved(false);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-1 text-xs text-gray-500">
+            Region codes match the tag's data-region, or EEA for visitors in a European time zone. Use default for everyone else
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Cookie Domain</label>
+          <input
+            type="text"
+            value={cookieDomain}
+            onChange={(e) => {
+              setCookieDomain(e.target.value);
+              setSaved(false);
+            }}
+            placeholder=".example.com"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Share the visitor cookie across subdomains
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Cross-Domain Links</label>
+          <input
+            type="text"
+            value={linkerDomains}
+            onChange={(e) => {
+              setLinkerDomains(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="shop.example.net, checkout.example.org"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Links to these domains carry the visitor id, so a journey across them counts as one visitor
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Sampling (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.1}
+            value={samplePercent}
+            onChange={(e) => {
+              setSamplePercent(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="100"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Share of visitors whose events are sent. Conversions and identify calls are always sent
+          </p>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center">
+            <label className="block text-sm font-medium text-gray-700">Ecommerce Mapping</label>
+            <button
+              type="button"
+              onClick={() => {
+                setMappingRows(rows => [...rows, { eventName: '', eventType: 'conversion', conversionType: '' }]);
+                setSaved(false);
+              }}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus size={14} className="mr-1" />
+              Add Event
+            </button>
+          </div>
+          {mappingRows.length === 0 ? (
+            <p className="mt-1 text-sm text-gray-500">Using the default mapping: view_item, add_to_cart and begin_checkout as events, purchase as a conversion.</p>
+          ) : (
+            <table className="mt-2 min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="pb-1 pr-2 font-medium">GA4 Event</th>
+                  <th className="pb-1 pr-2 font-medium">Recorded As</th>
+                  <th className="pb-1 pr-2 font-medium">Conversion Type</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {mappingRows.map((row, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={row.eventName}
+                        onChange={(e) => updateMappingRow(index, { eventName: e.target.value })}
+                        placeholder="refund"
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={row.eventType}
+                        onChange={(e) => updateMappingRow(index, { eventType: e.target.value })}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Ignored</option>
+                        {ECOMMERCE_EVENT_TYPES.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                        {definedEventTypes.filter(type => !ECOMMERCE_EVENT_TYPES.includes(type)).map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                        {row.eventType && !ECOMMERCE_EVENT_TYPES.includes(row.eventType) && !definedEventTypes.includes(row.eventType) && (
+                          <option value={row.eventType}>{row.eventType} (not defined)</option>
+                        )}
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="text"
+                        value={row.conversionType}
+                        onChange={(e) => updateMappingRow(index, { conversionType: e.target.value })}
+                        disabled={row.eventType !== 'conversion'}
+                        placeholder={row.eventName || 'purchase'}
+                        className="block w-full rounded-md border border-gray-300 px-2 py-1 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                      />
+                    </td>
+                    <td className="py-1">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setMappingRows(rows => rows.filter((_, i) => i !== index));
+                          setSaved(false);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-1 text-xs text-gray-500">
+            Applies when ecommerce capture is on in the tag, and overrides the default for the listed events. Custom event types need an active event definition
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex justify-end items-center space-x-3">
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save size={16} className="mr-2" />
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TrackerConfigManager;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { TrackerManifest } from '../types';
+import { SERVE_TRACKER_URL, sortVersions } from '../lib/trackerVersions';
+
+interface TrackerVersionManagerProps {
+  clientId: string;
+  pinnedVersion: string | null;
+  manifest: TrackerManifest | null;
+  manifestError: string | null;
+  onPin: (version: string | null) => Promise<void>;
+}
+
+const TrackerVersionManager: React.FC<TrackerVersionManagerProps> = ({
+  clientId,
+  pinnedVersion,
+  manifest,
+  manifestError,
+  onPin
+}) => {
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const versions = sortVersions(Object.keys(manifest?.versions || {}));
+  const integrity = pinnedVersion ? manifest?.versions[pinnedVersion]?.files['tracker.js'] : undefined;
+
+  const handleChange = async (value: string) => {
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+      await onPin(value || null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // A pinned version gets its immutable URL and integrity hash. Otherwise
+  // the tag follows whatever version the dashboard pins, without SRI
+  const scriptTag = pinnedVersion && integrity
+    ? `<script
+  src="${SERVE_TRACKER_URL}/v/${pinnedVersion}/tracker.js"
+  integrity="${integrity}"
+  crossorigin="anonymous"
+  data-client-id="${clientId}"
+  defer
+></script>`
+    : `<script
+  src="${SERVE_TRACKER_URL}/tracker.js?client_id=${clientId}"
+  data-client-id="${clientId}"
+  defer
+></script>`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Tracker Version</label>
+        <select
+          value={pinnedVersion || ''}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={isSaving}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          <option value="">Latest{manifest?.latest ? ` (${manifest.latest})` : ''}</option>
+          {pinnedVersion && !versions.includes(pinnedVersion) && (
+            <option value={pinnedVersion}>{pinnedVersion} (not published)</option>
+          )}
+          {versions.map(version => (
+            <option key={version} value={version}>
+              {version}
+              {manifest?.versions[version]?.released_at &&
+                ` (released ${new Date(manifest.versions[version].released_at).toLocaleDateString()})`}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Pin a version to get a script tag with an integrity hash. Unpinned sites get each new release within five minutes
+        </p>
+      </div>
+
+      {manifestError && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="text-sm text-yellow-700">{manifestError}</p>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{saveError}</p>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Tracking Script</label>
+        <div className="mt-1">
+          <pre className="bg-gray-50 p-4 rounded-md border border-gray-200 text-sm overflow-x-auto">
+            {scriptTag}
+          </pre>
+        </div>
+        {pinnedVersion && integrity && (
+          <p className="mt-1 text-xs text-gray-500">
+            Replace the tag on the site whenever you change the pinned version; the browser refuses a script whose hash does not match
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackerVersionManager;
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Save, RefreshCw } from 'lucide-react';
+import { UnmappedUtmValue, UtmField, UtmMapping } from '../types';
+
+interface UtmMappingsManagerProps {
+  mappings: UtmMapping[];
+  unmappedValues: UnmappedUtmValue[];
+  onSave: (mapping: UtmMapping) => Promise<void>;
+  onDelete: (mappingId: string) => Promise<void>;
+  onBackfill: () => Promise<number>;
+}
+
+const fields: { value: UtmField; label: string }[] = [
+  { value: 'source', label: 'utm_source' },
+  { value: 'medium', label: 'utm_medium' },
+  { value: 'campaign', label: 'utm_campaign' }
+];
+
+const matchTypes: { value: UtmMapping['match_type']; label: string; patternPlaceholder: string; replacementPlaceholder: string }[] = [
+  { value: 'alias', label: 'Alias', patternPlaceholder: 'fb', replacementPlaceholder: 'facebook' },
+  { value: 'regex', label: 'Regex rewrite', patternPlaceholder: '^(m|l|www)\\.(.*)\\.com$', replacementPlaceholder: '\\2' }
+];
+
+const getMatchType = (matchType: UtmMapping['match_type']) =>
+  matchTypes.find(option => option.value === matchType) || matchTypes[0];
+
+const UtmMappingsManager: React.FC<UtmMappingsManagerProps> = ({
+  mappings,
+  unmappedValues,
+  onSave,
+  onDelete,
+  onBackfill
+}) => {
+  const [editingMapping, setEditingMapping] = useState<UtmMapping | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [backfillMessage, setBackfillMessage] = useState<string | null>(null);
+
+  const openEditor = (mapping: Partial<UtmMapping>) => {
+    setEditingMapping({
+      id: '',
+      field: 'source',
+      match_type: 'alias',
+      pattern: '',
+      replacement: '',
+      priority: 0,
+      is_active: true,
+      ...mapping
+    });
+    setSaveError(null);
+    setDeleteError(null);
+  };
+
+  const handleSave = async () => {
+    if (!editingMapping) return;
+
+    try {
+      setIsSaving(true);
+      setSaveError(null);
+
+      if (!editingMapping.pattern.trim()) {
+        throw new Error(editingMapping.match_type === 'alias' ? 'Value is required' : 'Pattern is required');
+      }
+      if (editingMapping.match_type === 'alias' && !editingMapping.replacement.trim()) {
+        throw new Error('Map to is required');
+      }
+      if (editingMapping.match_type === 'regex') {
+        try {
+          new RegExp(editingMapping.pattern);
+        } catch {
+          throw new Error('Pattern is not a valid regular expression');
+        }
+      }
+
+      await onSave({
+        ...editingMapping,
+        // Values are compared after trimming and lowercasing
+        pattern: editingMapping.match_type === 'alias'
+          ? editingMapping.pattern.trim().toLowerCase()
+          : editingMapping.pattern,
+        replacement: editingMapping.match_type === 'alias'
+          ? editingMapping.replacement.trim().toLowerCase()
+          : editingMapping.replacement
+      });
+      setEditingMapping(null);
+    } catch (error: any) {
+      setSaveError(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (mappingId: string) => {
+    try {
+      setDeleteError(null);
+      await onDelete(mappingId);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    }
+  };
+
+  const handleBackfill = async () => {
+    try {
+      setIsBackfilling(true);
+      setDeleteError(null);
+      setBackfillMessage(null);
+      const updated = await onBackfill();
+      setBackfillMessage(`Normalized ${updated.toLocaleString()} events`);
+    } catch (error: any) {
+      setDeleteError(error.message);
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-5">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Unmapped Values</h2>
+            <p className="text-sm text-gray-500">
+              Sources and mediums from the last 90 days that no alias covers. Map a value to merge it into another, or to itself to accept it
+            </p>
+          </div>
+        </div>
+
+        {unmappedValues.length === 0 ? (
+          <p className="text-sm text-gray-500">Every source and medium is mapped.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="pb-3 text-sm font-semibold text-gray-600">Field</th>
+                  <th className="pb-3 text-sm font-semibold text-gray-600">Value</th>
+                  <th className="pb-3 text-sm font-semibold text-gray-600">Sent as</th>
+                  <th className="pb-3 text-sm font-semibold text-gray-600">Events</th>
+                  <th className="pb-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {unmappedValues.map((unmapped) => (
+                  <tr key={`${unmapped.field}:${unmapped.value}`} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                    <td className="py-3 text-sm text-gray-500">utm_{unmapped.field}</td>
+                    <td className="py-3 font-mono text-sm text-gray-800">{unmapped.value}</td>
+                    <td className="py-3 font-mono text-xs text-gray-500">{unmapped.raw_values.join(', ')}</td>
+                    <td className="py-3 text-gray-700">{unmapped.event_count.toLocaleString()}</td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => openEditor({ field: unmapped.field, pattern: unmapped.value })}
+                        className="text-blue-600 hover:text-blue-800 text-sm"
+                      >
+                        Map
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-5">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">UTM Mappings</h2>
+            <p className="text-sm text-gray-500">
+              Values are trimmed and lowercased, then rewritten by regex, then mapped by alias. The raw values are kept
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleBackfill}
+              disabled={isBackfilling}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw size={16} className={`mr-2 ${isBackfilling ? 'animate-spin' : ''}`} />
+              Backfill History
+            </button>
+            <button
+              onClick={() => openEditor({})}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus size={16} className="mr-2" />
+              New Mapping
+            </button>
+          </div>
+        </div>
+
+        {deleteError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{deleteError}</p>
+          </div>
+        )}
+
+        {backfillMessage && (
+          <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-700">{backfillMessage}</p>
+          </div>
+        )}
+
+        {mappings.length === 0 && (
+          <p className="text-sm text-gray-500">No UTM mappings defined yet.</p>
+        )}
+
+        <div className="space-y-4">
+          {mappings.map((mapping) => (
+            <div key={mapping.id} className="bg-white p-4 rounded-lg border border-gray-200">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center">
+                    <span className="text-sm text-gray-500 mr-2">utm_{mapping.field}</span>
+                    <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">{mapping.pattern}</code>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">{mapping.replacement || '(empty)'}</code>
+                    {!mapping.is_active && (
+                      <span className="ml-2 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {getMatchType(mapping.match_type).label}
+                    {mapping.priority !== 0 && ` (priority ${mapping.priority})`}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => {
+                      setEditingMapping(mapping);
+                      setSaveError(null);
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(mapping.id)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {editingMapping && (
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingMapping.id ? 'Edit UTM Mapping' : 'New UTM Mapping'}
+            </h3>
+
+            {saveError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{saveError}</p>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Parameter</label>
+                  <select
+                    value={editingMapping.field}
+                    onChange={(e) => setEditingMapping({ ...editingMapping, field: e.target.value as UtmField })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {fields.map(field => (
+                      <option key={field.value} value={field.value}>{field.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Type</label>
+                  <select
+                    value={editingMapping.match_type}
+                    onChange={(e) => setEditingMapping({
+                      ...editingMapping,
+                      match_type: e.target.value as UtmMapping['match_type']
+                    })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {matchTypes.map(matchType => (
+                      <option key={matchType.value} value={matchType.value}>{matchType.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {editingMapping.match_type === 'alias' ? 'Value' : 'Pattern'}
+                </label>
+                <input
+                  type="text"
+                  value={editingMapping.pattern}
+                  onChange={(e) => setEditingMapping({ ...editingMapping, pattern: e.target.value })}
+                  placeholder={getMatchType(editingMapping.match_type).patternPlaceholder}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {editingMapping.match_type === 'alias' ? 'Map to' : 'Replace with'}
+                </label>
+                <input
+                  type="text"
+                  value={editingMapping.replacement}
+                  onChange={(e) => setEditingMapping({ ...editingMapping, replacement: e.target.value })}
+                  placeholder={getMatchType(editingMapping.match_type).replacementPlaceholder}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {editingMapping.match_type === 'regex' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Matching ignores case. Use \1, \2, ... for capture groups
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Priority</label>
+                <input
+                  type="number"
+                  value={editingMapping.priority}
+                  onChange={(e) => setEditingMapping({ ...editingMapping, priority: parseInt(e.target.value, 10) || 0 })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Mappings with a higher priority are applied first
+                </p>
+              </div>
+
+              <div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={editingMapping.is_active}
+                    onChange={(e) => setEditingMapping({ ...editingMapping, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingMapping(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Mapping'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UtmMappingsManager;
@@ -1,21 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
-import { Activity, BarChart4, Code, Home, Zap } from 'lucide-react';
+import { Activity, BarChart4, Code, Home, Tags, Zap } from 'lucide-react';
 import Dashboard from '../Dashboard';
 import EventsPage from './EventsPage';
 import ConversionsPage from './ConversionsPage';
 import AttributionModelManager from '../AttributionModelManager';
+import EventDefinitionsManager from '../EventDefinitionsManager';
+import ConversionTriggersManager from '../ConversionTriggersManager';
+import ChannelRulesManager from '../ChannelRulesManager';
+import ChannelGroupsManager from '../ChannelGroupsManager';
+import UtmMappingsManager from '../UtmMappingsManager';
+import TrackerVersionManager from '../TrackerVersionManager';
+import TrackerConfigManager from '../TrackerConfigManager';
+import ApiKeysManager from '../ApiKeysManager';
 import { supabase } from '../../lib/supabase';
+import { fetchTrackerManifest } from '../../lib/trackerVersions';
+import { generateApiKey } from '../../lib/apiKeys';
+import { ApiKey, ApiKeyScope, ChannelGroup, ChannelRule, ConversionTrigger, EventDefinition, TrackerManifest, TrackerSettings, UnmappedUtmValue, UtmMapping } from '../../types';
 
-type Tab = 'overview' | 'events' | 'conversions' | 'integration';
+type Tab = 'overview' | 'events' | 'conversions' | 'utm' | 'integration';
 type ButtonStatus = 'default' | 'loading' | 'success' | 'failure';
 
 interface Client {
   id: string;
   name: string;
   domain: string;
-  api_key: string;
   grower_org_id?: string;
+  tracker_version?: string | null;
+  tracker_config?: TrackerSettings | null;
 }
 
 const ClientDetailsPage: React.FC = () => {
@@ -28,6 +40,15 @@ const ClientDetailsPage: React.FC = () => {
   const [eventStatus, setEventStatus] = useState<ButtonStatus>('default');
   const [models, setModels] = useState<AttributionModelData[]>([]);
   const [modelError, setModelError] = useState<string | null>(null);
+  const [eventDefinitions, setEventDefinitions] = useState<EventDefinition[]>([]);
+  const [conversionTriggers, setConversionTriggers] = useState<ConversionTrigger[]>([]);
+  const [channelRules, setChannelRules] = useState<ChannelRule[]>([]);
+  const [channelGroups, setChannelGroups] = useState<ChannelGroup[]>([]);
+  const [utmMappings, setUtmMappings] = useState<UtmMapping[]>([]);
+  const [unmappedUtmValues, setUnmappedUtmValues] = useState<UnmappedUtmValue[]>([]);
+  const [trackerManifest, setTrackerManifest] = useState<TrackerManifest | null>(null);
+  const [trackerManifestError, setTrackerManifestError] = useState<string | null>(null);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   
   const handleTestConversion = () => {
     setConversionStatus('loading');
@@ -45,7 +66,7 @@ const ClientDetailsPage: React.FC = () => {
   const handleTestEvent = () => {
     setEventStatus('loading');
     if (window.gTracker) {
-      window.gTracker.trackEvent('test_event');
+      window.gTracker.track('test_event', { triggered_from: 'dashboard' });
       console.log('Test event triggered for client:', clientId);
       setEventStatus('success');
     } else {
@@ -55,7 +76,7 @@ const ClientDetailsPage: React.FC = () => {
     setTimeout(() => setEventStatus('default'), 2000);
   };
 
-  const fetchAttributionModels = async () => {
+  const fetchAttributionModels = useCallback(async () => {
     try {
       const { data, error: fetchError } = await supabase
         .from('attribution_models')
@@ -69,7 +90,7 @@ const ClientDetailsPage: React.FC = () => {
       setModelError(err.message);
       console.error('Error fetching attribution models:', err);
     }
-  };
+  }, [clientId]);
 
   const handleSaveModel = async (model: AttributionModelData) => {
     try {
@@ -124,6 +145,477 @@ const ClientDetailsPage: React.FC = () => {
     }
   };
 
+  const fetchEventDefinitions = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('event_definitions')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setEventDefinitions(data || []);
+    } catch (err: any) {
+      console.error('Error fetching event definitions:', err);
+    }
+  }, [clientId]);
+
+  const handleSaveEventDefinition = async (definition: EventDefinition) => {
+    try {
+      const { id, ...fields } = definition;
+      const definitionData = {
+        ...fields,
+        client_id: clientId,
+        updated_at: new Date().toISOString()
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('event_definitions')
+          .update(definitionData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('event_definitions')
+          .insert(definitionData);
+
+        if (error) throw error;
+      }
+
+      await fetchEventDefinitions();
+    } catch (err: any) {
+      console.error('Error saving event definition:', err);
+      throw new Error('Failed to save event definition');
+    }
+  };
+
+  const handleDeleteEventDefinition = async (definitionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('event_definitions')
+        .delete()
+        .eq('id', definitionId);
+
+      if (error) throw error;
+
+      await fetchEventDefinitions();
+    } catch (err: any) {
+      console.error('Error deleting event definition:', err);
+      throw new Error('Failed to delete event definition');
+    }
+  };
+
+  const fetchConversionTriggers = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('conversion_triggers')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setConversionTriggers(data || []);
+    } catch (err: any) {
+      console.error('Error fetching conversion triggers:', err);
+    }
+  }, [clientId]);
+
+  const handleSaveConversionTrigger = async (trigger: ConversionTrigger) => {
+    try {
+      const { id, ...fields } = trigger;
+      const triggerData = {
+        ...fields,
+        client_id: clientId,
+        updated_at: new Date().toISOString()
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('conversion_triggers')
+          .update(triggerData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('conversion_triggers')
+          .insert(triggerData);
+
+        if (error) throw error;
+      }
+
+      await fetchConversionTriggers();
+    } catch (err: any) {
+      console.error('Error saving conversion trigger:', err);
+      throw new Error('Failed to save conversion trigger');
+    }
+  };
+
+  const handleDeleteConversionTrigger = async (triggerId: string) => {
+    try {
+      const { error } = await supabase
+        .from('conversion_triggers')
+        .delete()
+        .eq('id', triggerId);
+
+      if (error) throw error;
+
+      await fetchConversionTriggers();
+    } catch (err: any) {
+      console.error('Error deleting conversion trigger:', err);
+      throw new Error('Failed to delete conversion trigger');
+    }
+  };
+
+  const fetchChannelRules = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('channel_rules')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setChannelRules(data || []);
+    } catch (err: any) {
+      console.error('Error fetching channel rules:', err);
+    }
+  }, [clientId]);
+
+  const handleSaveChannelRule = async (rule: ChannelRule) => {
+    try {
+      const { id, ...fields } = rule;
+      const ruleData = {
+        ...fields,
+        client_id: clientId,
+        updated_at: new Date().toISOString()
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('channel_rules')
+          .update(ruleData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('channel_rules')
+          .insert(ruleData);
+
+        if (error) throw error;
+      }
+
+      await fetchChannelRules();
+    } catch (err: any) {
+      console.error('Error saving channel rule:', err);
+      throw new Error('Failed to save channel rule');
+    }
+  };
+
+  const handleDeleteChannelRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('channel_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      await fetchChannelRules();
+    } catch (err: any) {
+      console.error('Error deleting channel rule:', err);
+      throw new Error('Failed to delete channel rule');
+    }
+  };
+
+  const fetchChannelGroups = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('channel_groups')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setChannelGroups(data || []);
+    } catch (err: any) {
+      console.error('Error fetching channel groups:', err);
+    }
+  }, [clientId]);
+
+  const handleSaveChannelGroup = async (group: ChannelGroup) => {
+    try {
+      const { id, ...fields } = group;
+      const groupData = {
+        ...fields,
+        client_id: clientId,
+        updated_at: new Date().toISOString()
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('channel_groups')
+          .update(groupData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('channel_groups')
+          .insert(groupData);
+
+        if (error) throw error;
+      }
+
+      await fetchChannelGroups();
+    } catch (err: any) {
+      console.error('Error saving channel group:', err);
+      throw new Error('Failed to save channel group');
+    }
+  };
+
+  const handleDeleteChannelGroup = async (groupId: string) => {
+    try {
+      const { error } = await supabase
+        .from('channel_groups')
+        .delete()
+        .eq('id', groupId);
+
+      if (error) throw error;
+
+      await fetchChannelGroups();
+    } catch (err: any) {
+      console.error('Error deleting channel group:', err);
+      throw new Error('Failed to delete channel group');
+    }
+  };
+
+  const handleReapplyChannelGroups = async (): Promise<number> => {
+    try {
+      const { data, error } = await supabase
+        .rpc('reapply_channel_groups', { p_client_id: clientId });
+
+      if (error) throw error;
+      return data || 0;
+    } catch (err: any) {
+      console.error('Error reapplying channel groups:', err);
+      throw new Error('Failed to reapply channel groups');
+    }
+  };
+
+  const fetchUtmMappings = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('utm_mappings')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('field', { ascending: true })
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setUtmMappings(data || []);
+    } catch (err: any) {
+      console.error('Error fetching UTM mappings:', err);
+    }
+  }, [clientId]);
+
+  const fetchUnmappedUtmValues = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .rpc('list_unmapped_utm_values', { p_client_id: clientId });
+
+      if (fetchError) throw fetchError;
+      setUnmappedUtmValues(data || []);
+    } catch (err: any) {
+      console.error('Error fetching unmapped UTM values:', err);
+    }
+  }, [clientId]);
+
+  const handleSaveUtmMapping = async (mapping: UtmMapping) => {
+    try {
+      const { id, ...fields } = mapping;
+      const mappingData = {
+        ...fields,
+        client_id: clientId,
+        updated_at: new Date().toISOString()
+      };
+
+      if (id) {
+        const { error } = await supabase
+          .from('utm_mappings')
+          .update(mappingData)
+          .eq('id', id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('utm_mappings')
+          .insert(mappingData);
+
+        if (error) throw error;
+      }
+
+      await Promise.all([fetchUtmMappings(), fetchUnmappedUtmValues()]);
+    } catch (err: any) {
+      console.error('Error saving UTM mapping:', err);
+      throw new Error('Failed to save UTM mapping');
+    }
+  };
+
+  const handleDeleteUtmMapping = async (mappingId: string) => {
+    try {
+      const { error } = await supabase
+        .from('utm_mappings')
+        .delete()
+        .eq('id', mappingId);
+
+      if (error) throw error;
+
+      await Promise.all([fetchUtmMappings(), fetchUnmappedUtmValues()]);
+    } catch (err: any) {
+      console.error('Error deleting UTM mapping:', err);
+      throw new Error('Failed to delete UTM mapping');
+    }
+  };
+
+  const handleBackfillUtmNormalization = async (): Promise<number> => {
+    try {
+      const { data, error } = await supabase
+        .rpc('backfill_utm_normalization', { p_client_id: clientId });
+
+      if (error) throw error;
+
+      await fetchUnmappedUtmValues();
+      return data || 0;
+    } catch (err: any) {
+      console.error('Error backfilling UTM normalization:', err);
+      throw new Error('Failed to backfill UTM normalization');
+    }
+  };
+
+  const loadTrackerManifest = async () => {
+    try {
+      setTrackerManifestError(null);
+      setTrackerManifest(await fetchTrackerManifest());
+    } catch (err: any) {
+      console.error('Error fetching tracker versions:', err);
+      setTrackerManifestError('Could not load the published tracker versions');
+    }
+  };
+
+  const handlePinTrackerVersion = async (version: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update({ tracker_version: version })
+        .eq('id', clientId);
+
+      if (error) throw error;
+
+      setClient(current => current && { ...current, tracker_version: version });
+    } catch (err: any) {
+      console.error('Error pinning tracker version:', err);
+      throw new Error('Failed to update tracker version');
+    }
+  };
+
+  const handleSaveTrackerSettings = async (settings: TrackerSettings) => {
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .update({ tracker_config: settings })
+        .eq('id', clientId);
+
+      if (error) throw error;
+
+      setClient(current => current && { ...current, tracker_config: settings });
+    } catch (err: any) {
+      console.error('Error saving tracker settings:', err);
+      throw new Error('Failed to save tracker settings');
+    }
+  };
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('api_keys')
+        .select('id, client_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setApiKeys(data || []);
+    } catch (err: any) {
+      console.error('Error fetching API keys:', err);
+    }
+  }, [clientId]);
+
+  // Resolves to the new key, which is only available now
+  const insertApiKey = async (name: string, scopes: ApiKeyScope[]): Promise<string> => {
+    const { key, prefix, hash } = await generateApiKey();
+    const { error } = await supabase
+      .from('api_keys')
+      .insert({
+        client_id: clientId,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes
+      });
+
+    if (error) throw error;
+    return key;
+  };
+
+  const handleCreateApiKey = async (name: string, scopes: ApiKeyScope[]): Promise<string> => {
+    try {
+      const key = await insertApiKey(name, scopes);
+      await fetchApiKeys();
+      return key;
+    } catch (err: any) {
+      console.error('Error creating API key:', err);
+      throw new Error('Failed to create API key');
+    }
+  };
+
+  const revokeApiKey = async (keyId: string) => {
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', keyId);
+
+    if (error) throw error;
+  };
+
+  // Issues a replacement with the same name and scopes, then revokes the old key
+  const handleRotateApiKey = async (apiKey: ApiKey): Promise<string> => {
+    try {
+      const key = await insertApiKey(apiKey.name, apiKey.scopes);
+      await revokeApiKey(apiKey.id);
+      await fetchApiKeys();
+      return key;
+    } catch (err: any) {
+      console.error('Error rotating API key:', err);
+      throw new Error('Failed to rotate API key');
+    }
+  };
+
+  const handleRevokeApiKey = async (keyId: string) => {
+    try {
+      await revokeApiKey(keyId);
+      await fetchApiKeys();
+    } catch (err: any) {
+      console.error('Error revoking API key:', err);
+      throw new Error('Failed to revoke API key');
+    }
+  };
+
   useEffect(() => {
     const fetchClient = async () => {
       try {
@@ -145,8 +637,26 @@ const ClientDetailsPage: React.FC = () => {
     if (clientId) {
       fetchClient();
       fetchAttributionModels();
+      fetchEventDefinitions();
+      fetchConversionTriggers();
+      fetchChannelRules();
+      fetchChannelGroups();
+      fetchUtmMappings();
+      fetchUnmappedUtmValues();
+      loadTrackerManifest();
+      fetchApiKeys();
     }
-  }, [clientId]);
+  }, [
+    clientId,
+    fetchAttributionModels,
+    fetchEventDefinitions,
+    fetchConversionTriggers,
+    fetchChannelRules,
+    fetchChannelGroups,
+    fetchUtmMappings,
+    fetchUnmappedUtmValues,
+    fetchApiKeys
+  ]);
 
   if (loading) {
     return (
@@ -176,6 +686,16 @@ const ClientDetailsPage: React.FC = () => {
         return <EventsPage clientId={clientId!} />;
       case 'conversions':
         return <ConversionsPage clientId={clientId!} />;
+      case 'utm':
+        return (
+          <UtmMappingsManager
+            mappings={utmMappings}
+            unmappedValues={unmappedUtmValues}
+            onSave={handleSaveUtmMapping}
+            onDelete={handleDeleteUtmMapping}
+            onBackfill={handleBackfillUtmNormalization}
+          />
+        );
       case 'integration':
         return (
           <div className="space-y-6">
@@ -183,24 +703,6 @@ const ClientDetailsPage: React.FC = () => {
               <h2 className="text-lg font-semibold text-gray-800 mb-4">Integration Settings</h2>
               
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">API Key</label>
-                  <div className="mt-1 flex rounded-md shadow-sm">
-                    <input
-                      type="text"
-                      value={client.api_key}
-                      readOnly
-                      className="flex-1 min-w-0 block w-full px-3 py-2 rounded-md border border-gray-300 bg-gray-50 text-sm"
-                    />
-                    <button
-                      type="button"
-                      className="ml-3 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
-                    >
-                      Regenerate
-                    </button>
-                  </div>
-                </div>
-
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Organization ID</label>
                   <div className="mt-1">
@@ -213,18 +715,30 @@ const ClientDetailsPage: React.FC = () => {
                   </div>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">Tracking Script</label>
-                  <div className="mt-1">
-                    <pre className="bg-gray-50 p-4 rounded-md border border-gray-200 text-sm overflow-x-auto">
-                      {`<script 
-  src="${import.meta.env.VITE_SUPABASE_URL}/functions/v1/serve-tracker/tracker.js"
-  data-client-id="${client.id}"
-  defer
-></script>`}
-                    </pre>
-                  </div>
-                </div>
+                <TrackerVersionManager
+                  clientId={client.id}
+                  pinnedVersion={client.tracker_version || null}
+                  manifest={trackerManifest}
+                  manifestError={trackerManifestError}
+                  onPin={handlePinTrackerVersion}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5 mt-6">
+                <TrackerConfigManager
+                  settings={client.tracker_config || null}
+                  eventDefinitions={eventDefinitions}
+                  onSave={handleSaveTrackerSettings}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5 mt-6">
+                <ApiKeysManager
+                  apiKeys={apiKeys}
+                  onCreate={handleCreateApiKey}
+                  onRotate={handleRotateApiKey}
+                  onRevoke={handleRevokeApiKey}
+                />
               </div>
 
               <div className="bg-white rounded-lg shadow-sm p-5 mt-6">
@@ -274,10 +788,44 @@ const ClientDetailsPage: React.FC = () => {
                 <AttributionModelManager
                   clientId={clientId!}
                   models={models}
+                  channelGroups={channelGroups}
                   onSave={handleSaveModel}
                   onDelete={handleDeleteModel}
                 />
               </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <EventDefinitionsManager
+                  definitions={eventDefinitions}
+                  onSave={handleSaveEventDefinition}
+                  onDelete={handleDeleteEventDefinition}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <ConversionTriggersManager
+                  triggers={conversionTriggers}
+                  onSave={handleSaveConversionTrigger}
+                  onDelete={handleDeleteConversionTrigger}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <ChannelRulesManager
+                  rules={channelRules}
+                  onSave={handleSaveChannelRule}
+                  onDelete={handleDeleteChannelRule}
+                />
+              </div>
+
+              <div className="bg-white rounded-lg shadow-sm p-5">
+                <ChannelGroupsManager
+                  groups={channelGroups}
+                  onSave={handleSaveChannelGroup}
+                  onDelete={handleDeleteChannelGroup}
+                  onReapply={handleReapplyChannelGroups}
+                />
+              </div>
             </div>
           </div>
         );
@@ -341,6 +889,19 @@ const ClientDetailsPage: React.FC = () => {
             Conversions
           </button>
 
+          <button
+            onClick={() => setActiveTab('utm')}
+            className={`
+              pb-4 px-1 border-b-2 font-medium text-sm
+              ${activeTab === 'utm'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}
+            `}
+          >
+            <Tags size={16} className="inline-block mr-2" />
+            UTM Mapping
+          </button>
+
           <button
             onClick={() => setActiveTab('integration')}
             className={`
@@ -8,7 +8,6 @@ interface Client {
   name: string;
   domain: string;
   created_at: string;
-  api_key: string;
   grower_org_id?: string;
 }
 
@@ -90,18 +89,12 @@ const ClientsPage: React.FC = () => {
         throw new Error('All fields are required');
       }
 
-      // Generate API key
-      const apiKey = `tgr_${Array.from(crypto.getRandomValues(new Uint8Array(16)))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('')}`;
-
       const { data, error } = await supabase
         .from('clients')
         .insert({
           name: newClient.name,
           domain: newClient.domain,
-          grower_org_id: newClient.grower_org_id,
-          api_key: apiKey
+          grower_org_id: newClient.grower_org_id
         })
         .select()
         .single();
@@ -247,6 +247,11 @@ const EventsPage: React.FC<EventsPageProps> = ({ clientId }) => {
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${eventTypeColors[event.event_type] || 'bg-gray-100 text-gray-800'}`}>
                       {event.event_type}
                     </span>
+                    {event.properties && Object.keys(event.properties).length > 0 && (
+                      <span className="block text-xs text-gray-500 mt-1 font-mono truncate max-w-[200px]" title={JSON.stringify(event.properties)}>
+                        {Object.entries(event.properties).map(([key, value]) => `${key}=${value}`).join(', ')}
+                      </span>
+                    )}
                   </td>
                   <td className="px-5 py-4">
                     <div>
@@ -73,16 +73,34 @@ const IntegrationPage: React.FC = () => {
 // View the minified version at:
 // ${import.meta.env.VITE_SUPABASE_URL}/functions/v1/serve-tracker
 
-// To track conversions, use:
-gTracker.trackConversion('purchase', 99.99, 'USD');
+// Loading the script from a tag manager or bundler? Configure it before
+// the script loads instead of using data-* attributes:
+window.gTracker = window.gTracker || function() {
+  (window.gTracker.q = window.gTracker.q || []).push(arguments);
+};
+gTracker('init', {
+  clientId: '${mockClientId}',
+  endpoint: '${import.meta.env.VITE_SUPABASE_URL}/functions/v1/event-capture',
+  cookieDomain: '.example.com', // Optional - share the visitor across subdomains
+  debug: false,
+  autoPageview: true,
+  firstPartyMode: false, // Optional - keep the visitor id in an HttpOnly cookie (needs a proxy on your domain)
+  linkerDomains: ['shop.example.net'] // Optional - carry the visitor over to your other domains
+});
+
+// To track conversions, use (the order id keeps a reloaded page from counting twice):
+gTracker('trackConversion', 'purchase', 99.99, 'USD', 'order_1001');
+
+// To set consent status for every category:
+gTracker('setConsent', true);
 
-// To set consent status:
-gTracker.setConsent(true);`;
+// Or per category (analytics, ads, identity):
+gTracker('setConsent', { analytics: true, ads: false, identity: false });`;
   };
   
   const renderApiCode = () => {
-    return `// Track a conversion event
-fetch('https://api.growertracker.com/events/conversion', {
+    return `// Track a conversion from your server (the API key needs the ingest scope)
+fetch('${import.meta.env.VITE_SUPABASE_URL}/functions/v1/capture-conversion', {
   method: 'POST',
   headers: {
     'Content-Type': 'application/json',
@@ -90,48 +108,42 @@ fetch('https://api.growertracker.com/events/conversion', {
   },
   body: JSON.stringify({
     visitor_id: 'VISITOR_ID', // Required
-    event_type: 'conversion',
-    conversion_type: 'purchase', // Or 'lead', 'signup', etc.
+    conversion_type: 'purchase', // Required - or 'lead', 'signup', etc.
     value: 99.99, // Optional - value of the conversion
     currency: 'USD', // Optional
-    timestamp: Date.now(),
-    page_url: window.location.href
+    order_id: 'order_1001', // Optional - the same order is only counted once
+    timestamp: new Date().toISOString()
   })
 })`;
   };
   
   const renderGTMCode = () => {
-    return `// Google Tag Manager - Custom HTML Tag
+    return `<!-- 1. Turn on ecommerce capture on the tracker tag -->
+<script
+  src="${import.meta.env.VITE_SUPABASE_URL}/functions/v1/serve-tracker"
+  data-client-id="${mockClientId}"
+  data-ecommerce
+  defer
+></script>
 
+<!-- 2. Keep pushing standard GA4 ecommerce events; the tracker picks up
+     view_item, add_to_cart, begin_checkout and purchase on its own -->
 <script>
-  document.addEventListener('DOMContentLoaded', function() {
-    // Listen for purchase event
-    dataLayer.push({
-      'event': 'gtm.dom',
-      'gtm.start': new Date().getTime(),
-      'gtm.uniqueEventId': 1
-    });
-    
-    // When purchase is completed
-    window.dataLayer = window.dataLayer || [];
-    dataLayer.push({
-      'event': 'purchase',
-      'ecommerce': {
-        'purchase': {
-          'actionField': {
-            'id': 'ORDER_ID',
-            'revenue': 'TOTAL_VALUE'
-          }
-        }
-      }
-    });
-    
-    // Capture the purchase in AttributionTracker
-    if (window.gTracker) {
-      window.gTracker.trackConversion('purchase', TOTAL_VALUE, 'USD');
+  window.dataLayer = window.dataLayer || [];
+  dataLayer.push({ ecommerce: null });
+  dataLayer.push({
+    event: 'purchase',
+    ecommerce: {
+      transaction_id: 'T_12345',
+      value: 99.99,
+      currency: 'USD',
+      items: [{ item_id: 'SKU_1', item_name: 'T-shirt', price: 99.99, quantity: 1 }]
     }
   });
-</script>`;
+</script>
+
+<!-- 3. Optional: change how GA4 events are recorded under Ecommerce Mapping
+     in Tracker Settings on the client's Integration tab -->`;
   };
 
   const verifyTracker = async () => {
@@ -294,7 +306,7 @@ fetch('https://api.growertracker.com/events/conversion', {
                       <li>Track page views</li>
                       <li>Capture UTM parameters</li>
                       <li>Track form submissions</li>
-                      <li>Handle click IDs (fbclid, gclid, ttclid, msclkid)</li>
+                      <li>Handle click IDs (gclid, gbraid, wbraid, fbclid, ttclid, msclkid, li_fat_id and more)</li>
                       <li>Hash email addresses for privacy</li>
                     </ul>
                   </p>
@@ -339,16 +351,22 @@ fetch('https://api.growertracker.com/events/conversion', {
                   
                   <div className="relative">
                     <div className="bg-gray-50 p-4 rounded-md border border-gray-200 font-mono text-sm overflow-x-auto">
-                      {`// Call this when a conversion happens
-gTracker.trackConversion('purchase', 99.99, 'USD');
+                      {`// Call this when a conversion happens, with the order id if there is one
+gTracker.trackConversion('purchase', 99.99, 'USD', 'order_1001');
 
 // Other conversion types
 gTracker.trackConversion('lead');
-gTracker.trackConversion('signup');`}
+gTracker.trackConversion('signup');
+
+// Custom events with properties
+gTracker.track('video_played', { video_id: 'intro', duration: 42 });
+
+// Link the visitor to your own user id after login
+gTracker.identify({ userId: 'user_123', email: 'jane@example.com' });`}
                     </div>
                     <button 
                       className="absolute top-2 right-2 p-1.5 rounded-md bg-white border border-gray-200 text-gray-500 hover:bg-gray-50 transition-colors"
-                      onClick={() => copyToClipboard(`gTracker.trackConversion('purchase', 99.99, 'USD');`)}
+                      onClick={() => copyToClipboard(`gTracker.trackConversion('purchase', 99.99, 'USD', 'order_1001');`)}
                     >
                       <Copy size={16} />
                     </button>
@@ -379,7 +397,7 @@ gTracker.trackConversion('signup');`}
                 <div>
                   <h3 className="text-md font-semibold text-gray-800 mb-2">Server-side conversion tracking</h3>
                   <p className="text-sm text-gray-600 mb-3">
-                    Use our API to track conversions from your server. Include your API key in the <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">x-api-key</code> header.
+                    Use our API to track conversions from your server. Include an API key with the ingest scope in the <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">x-api-key</code> header. Create and rotate keys on the client's Integration tab, and never put them in browser code.
                   </p>
                   
                   <div className="relative">
@@ -426,7 +444,7 @@ gTracker.trackConversion('signup');`}
                 <div>
                   <h3 className="text-md font-semibold text-gray-800 mb-2">Google Tag Manager Integration</h3>
                   <p className="text-sm text-gray-600 mb-3">
-                    Use our GTM integration to capture conversions from your existing GTM setup:
+                    The tracker can read GA4 ecommerce events straight from your existing <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">dataLayer</code>, no extra tags needed:
                   </p>
                   
                   <div className="relative">
@@ -446,10 +464,10 @@ gTracker.trackConversion('signup');`}
                   <h3 className="text-md font-semibold text-gray-800 mb-2">Setup Instructions</h3>
                   <ol className="list-decimal ml-5 space-y-2 text-sm text-gray-700">
                     <li>Install our tracker script on your website as shown in the Website Installation tab</li>
-                    <li>Create a new Custom HTML tag in Google Tag Manager</li>
-                    <li>Paste the code above into the tag</li>
-                    <li>Set the tag to trigger on your existing purchase/conversion events</li>
-                    <li>Save and publish your GTM container</li>
+                    <li>Add the <code className="bg-gray-100 px-1 py-0.5 rounded text-sm">data-ecommerce</code> attribute to the script tag</li>
+                    <li>Make sure your site or GTM container pushes GA4 ecommerce events to the dataLayer</li>
+                    <li>Purchases are recorded as conversions with their value, currency, transaction ID and items</li>
+                    <li>Record other GA4 events, or your own event types, under Ecommerce Mapping in Tracker Settings on the client's Integration tab</li>
                   </ol>
                 </div>
                 
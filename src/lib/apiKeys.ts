@@ -0,0 +1,33 @@
+import { ApiKeyScope } from '../types';
+
+export const API_KEY_SCOPES: { scope: ApiKeyScope; label: string; description: string }[] = [
+  { scope: 'ingest', label: 'Ingest', description: 'Send events and conversions' },
+  { scope: 'read', label: 'Read', description: 'Read attribution results' },
+  { scope: 'sync', label: 'Sync', description: 'Push attribution results to the webhook' }
+];
+
+// Enough of the key to tell keys apart on the dashboard
+const KEY_PREFIX_LENGTH = 12;
+
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  hash: string;
+}
+
+/**
+ * Creates a random API key with the SHA-256 hash stored in api_keys. The
+ * key itself is never stored, so it must be shown to the user right away.
+ */
+export const generateApiKey = async (): Promise<GeneratedApiKey> => {
+  const key = `tgr_${Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')}`;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const hash = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return { key, prefix: key.slice(0, KEY_PREFIX_LENGTH), hash };
+};
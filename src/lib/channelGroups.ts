@@ -0,0 +1,25 @@
+import { ChannelGroup } from '../types';
+
+// Groups every event falls back to when no client grouping matches, named
+// by `resolve_channel_group` after the event's channel
+export const DEFAULT_CHANNEL_GROUP_COLORS: Record<string, string> = {
+  'Paid Search': '#DB4437',
+  'Paid Social': '#4267B2',
+  'Display': '#FFB900',
+  'Affiliate': '#FD5A5A',
+  'Organic Search': '#28A745',
+  'Organic Social': '#C13584',
+  'Email': '#3AAEE0',
+  'AI Assistants': '#10A37F',
+  'Referral': '#8E44AD',
+  'Internal': '#BBBBBB',
+  'Direct': '#333333',
+  'Other': '#888888'
+};
+
+const FALLBACK_COLOR = '#888888';
+
+export const getChannelGroupColor = (name: string, groups: Pick<ChannelGroup, 'name' | 'color'>[] = []): string =>
+  groups.find(group => group.name === name)?.color
+    || DEFAULT_CHANNEL_GROUP_COLORS[name]
+    || FALLBACK_COLOR;
@@ -0,0 +1,22 @@
+import { TrackerManifest } from '../types';
+
+export const SERVE_TRACKER_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/serve-tracker`;
+
+export const fetchTrackerManifest = async (): Promise<TrackerManifest> => {
+  const response = await fetch(`${SERVE_TRACKER_URL}/versions`);
+  if (!response.ok) {
+    throw new Error(`Failed to load tracker versions (HTTP ${response.status})`);
+  }
+  return response.json();
+};
+
+// Newest first
+export const sortVersions = (versions: string[]): string[] =>
+  [...versions].sort((a, b) => {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < 3; i++) {
+      if (partsA[i] !== partsB[i]) return partsB[i] - partsA[i];
+    }
+    return 0;
+  });
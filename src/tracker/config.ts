@@ -0,0 +1,178 @@
+import { DEFAULT_SESSION_TIMEOUT_MINUTES } from './session';
+import { ConsentDefaults, EcommerceEventMapping, TrackerConfig } from './types';
+import { TRACKER_VERSION } from './version';
+
+const DEBUG_STORAGE_KEY = 'gtracker_debug';
+
+export const DEFAULT_ENDPOINT = 'https://ucczkgrnxvhxgnvrityk.supabase.co/functions/v1/event-capture';
+
+export interface ResolvedConfig {
+  clientId: string;
+  endpoint: string;
+  cookieDomain?: string;
+  debug: boolean;
+  autoPageview: boolean;
+  spaNavigation: boolean;
+  sessionTimeout: number;
+  consentDefaults?: ConsentDefaults;
+  region?: string;
+  cmpBridge: boolean;
+  firstPartyMode: boolean;
+  linkerDomains: string[];
+  ecommerce: boolean;
+  ecommerceMapping?: Record<string, EcommerceEventMapping | false>;
+  conversionTriggers: boolean;
+  attributionTtlDays?: number;
+  formCapture: boolean;
+  assetsUrl?: string;
+  sampleRate: number;
+  remoteConfig: boolean;
+}
+
+function parseBoolean(value: string | null): boolean | undefined {
+  if (value === null) return undefined;
+  return value === '' || value === 'true' || value === '1';
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  if (value === null) return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Finds the script tag the tracker was loaded from. `document.currentScript`
+ * is only set while the script runs synchronously, so fall back to the first
+ * tag carrying a client id.
+ */
+export function findTrackerScript(): HTMLScriptElement | null {
+  const current = document.currentScript as HTMLScriptElement | null;
+  if (current) return current;
+  return document.querySelector('script[data-client-id]');
+}
+
+/**
+ * Reads `data-*` attributes from the tracker script tag. When the script is
+ * served by `serve-tracker`, the ingestion endpoint is derived from its URL
+ * so the tag works against any Supabase project.
+ */
+export function readScriptConfig(script: HTMLScriptElement | null): TrackerConfig {
+  if (!script) return {};
+
+  const config: TrackerConfig = {
+    clientId: script.getAttribute('data-client-id') || undefined,
+    endpoint: script.getAttribute('data-endpoint') || undefined,
+    cookieDomain: script.getAttribute('data-cookie-domain') || undefined,
+    debug: parseBoolean(script.getAttribute('data-debug')),
+    autoPageview: parseBoolean(script.getAttribute('data-auto-pageview')),
+    spaNavigation: parseBoolean(script.getAttribute('data-spa-navigation')),
+    sessionTimeout: parseNumber(script.getAttribute('data-session-timeout')),
+    region: script.getAttribute('data-region') || undefined,
+    cmpBridge: parseBoolean(script.getAttribute('data-cmp-bridge')),
+    firstPartyMode: parseBoolean(script.getAttribute('data-first-party-mode')),
+    linkerDomains: parseList(script.getAttribute('data-linker-domains')),
+    ecommerce: parseBoolean(script.getAttribute('data-ecommerce')),
+    conversionTriggers: parseBoolean(script.getAttribute('data-conversion-triggers')),
+    attributionTtlDays: parseNumber(script.getAttribute('data-attribution-ttl-days')),
+    formCapture: parseBoolean(script.getAttribute('data-form-capture')),
+    assetsUrl: script.getAttribute('data-assets-url') || undefined,
+    sampleRate: parseNumber(script.getAttribute('data-sample-rate')),
+    remoteConfig: parseBoolean(script.getAttribute('data-remote-config'))
+  };
+
+  const serveTrackerMatch = script.src.match(/^(.*\/functions\/v1\/)serve-tracker/);
+  if (!config.endpoint && serveTrackerMatch) {
+    config.endpoint = `${serveTrackerMatch[1]}event-capture`;
+  }
+
+  // Optional features must come from the same release as the core. From
+  // serve-tracker that is the versioned path, elsewhere the core's directory
+  if (!config.assetsUrl && serveTrackerMatch) {
+    config.assetsUrl = `${serveTrackerMatch[1]}serve-tracker/v/${TRACKER_VERSION}`;
+  } else if (!config.assetsUrl && script.src) {
+    config.assetsUrl = script.src.replace(/[?#].*$/, '').replace(/\/[^/]*$/, '');
+  }
+
+  return config;
+}
+
+/**
+ * Reads the `gt_debug` URL parameter. `gt_debug=1` turns debug mode on for
+ * the rest of the browser session and `gt_debug=0` turns it off again, so
+ * an install can be checked on a live site without editing the tag.
+ */
+export function readDebugParam(): boolean | undefined {
+  const value = new URLSearchParams(window.location.search).get('gt_debug');
+
+  try {
+    if (value !== null) {
+      const enabled = parseBoolean(value) ?? false;
+      if (enabled) {
+        sessionStorage.setItem(DEBUG_STORAGE_KEY, '1');
+      } else {
+        sessionStorage.removeItem(DEBUG_STORAGE_KEY);
+      }
+      return enabled;
+    }
+    return sessionStorage.getItem(DEBUG_STORAGE_KEY) === '1' ? true : undefined;
+  } catch {
+    return value === null ? undefined : parseBoolean(value);
+  }
+}
+
+/**
+ * Merges config sources; later sources win over earlier ones and undefined
+ * values never override a value set earlier.
+ */
+export function mergeConfig(...sources: (TrackerConfig | undefined)[]): TrackerConfig {
+  const merged: TrackerConfig = {};
+  sources.forEach(source => {
+    if (!source) return;
+    (Object.keys(source) as (keyof TrackerConfig)[]).forEach(key => {
+      if (source[key] !== undefined) {
+        (merged as Record<string, unknown>)[key] = source[key];
+      }
+    });
+  });
+  return merged;
+}
+
+export function resolveConfig(config: TrackerConfig): ResolvedConfig {
+  if (!config.clientId) {
+    throw new Error('Client ID is required. Pass clientId to gTracker.init() or add data-client-id attribute to the script tag.');
+  }
+
+  return {
+    clientId: config.clientId,
+    endpoint: (config.endpoint || DEFAULT_ENDPOINT).replace(/\/+$/, ''),
+    cookieDomain: config.cookieDomain,
+    debug: config.debug ?? false,
+    autoPageview: config.autoPageview ?? true,
+    spaNavigation: config.spaNavigation ?? true,
+    sessionTimeout: config.sessionTimeout && config.sessionTimeout > 0
+      ? config.sessionTimeout
+      : DEFAULT_SESSION_TIMEOUT_MINUTES,
+    consentDefaults: config.consentDefaults,
+    region: config.region,
+    cmpBridge: config.cmpBridge ?? true,
+    firstPartyMode: config.firstPartyMode ?? false,
+    linkerDomains: config.linkerDomains || [],
+    ecommerce: config.ecommerce ?? false,
+    ecommerceMapping: config.ecommerceMapping,
+    conversionTriggers: config.conversionTriggers ?? true,
+    attributionTtlDays: config.attributionTtlDays && config.attributionTtlDays > 0
+      ? config.attributionTtlDays
+      : undefined,
+    formCapture: config.formCapture ?? true,
+    assetsUrl: config.assetsUrl?.replace(/\/+$/, ''),
+    sampleRate: config.sampleRate !== undefined && config.sampleRate >= 0 && config.sampleRate < 1
+      ? config.sampleRate
+      : 1,
+    remoteConfig: config.remoteConfig ?? true
+  };
+}
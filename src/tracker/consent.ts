@@ -0,0 +1,197 @@
+import type { TrackerFeatures } from './lazy';
+import { ConsentCategory, ConsentDefaults, ConsentSnapshot, ConsentState } from './types';
+
+const CONSENT_STORAGE_KEY = 'gtracker_consent';
+const LEGACY_CONSENT_KEY = 'gtracker_consent_given';
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['analytics', 'ads', 'identity'];
+
+// Opt-in inside the EEA, opt-out elsewhere, unless the client overrides it
+const BUILT_IN_DEFAULTS: ConsentDefaults = {
+  default: { analytics: 'granted', ads: 'granted', identity: 'granted' },
+  EEA: { analytics: 'denied', ads: 'denied', identity: 'denied' }
+};
+
+// TCF v2 purposes each category needs consent for: 1 = store/access
+// information on a device, 7 = measure ad performance, 8 = measure content
+// performance
+const TCF_PURPOSES: Record<ConsentCategory, number[]> = {
+  analytics: [1, 8],
+  ads: [1, 7],
+  identity: [1]
+};
+
+// Google Consent Mode signals mapped onto our categories
+const GOOGLE_CONSENT_TYPES: Record<ConsentCategory, string> = {
+  analytics: 'analytics_storage',
+  ads: 'ad_storage',
+  identity: 'ad_user_data'
+};
+
+type ConsentListener = (snapshot: ConsentSnapshot) => void;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Guesses the visitor's region from their time zone. Only used to pick a
+ * default when the client config does not name a region.
+ */
+function detectRegion(): string {
+  try {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || '';
+    return timeZone.startsWith('Europe/') ? 'EEA' : 'default';
+  } catch {
+    return 'default';
+  }
+}
+
+/**
+ * Tracks consent per category. Each category is `unknown` until a signal
+ * arrives from setConsent(), a TCF v2 CMP or Google Consent Mode; while it
+ * is unknown, the region default decides whether the category is allowed.
+ */
+export class ConsentManager {
+  private states: ConsentSnapshot;
+  private defaults: Record<ConsentCategory, ConsentState>;
+  private listeners: ConsentListener[] = [];
+
+  constructor(consentDefaults?: ConsentDefaults, region?: string) {
+    const resolvedRegion = region || detectRegion();
+    this.defaults = {
+      analytics: 'unknown',
+      ads: 'unknown',
+      identity: 'unknown',
+      ...BUILT_IN_DEFAULTS.default,
+      ...BUILT_IN_DEFAULTS[resolvedRegion],
+      ...consentDefaults?.default,
+      ...consentDefaults?.[resolvedRegion]
+    };
+    this.states = this.load();
+  }
+
+  public allows(category: ConsentCategory): boolean {
+    const state = this.states[category];
+    return state === 'granted' || (state === 'unknown' && this.defaults[category] === 'granted');
+  }
+
+  public getSnapshot(): ConsentSnapshot {
+    return { ...this.states };
+  }
+
+  public update(changes: Partial<Record<ConsentCategory, boolean | ConsentState>>): void {
+    let changed = false;
+    CONSENT_CATEGORIES.forEach(category => {
+      const value = changes[category];
+      if (value === undefined) return;
+
+      const state: ConsentState = typeof value === 'boolean' ? (value ? 'granted' : 'denied') : value;
+      if (this.states[category] !== state) {
+        this.states[category] = state;
+        changed = true;
+      }
+    });
+
+    if (!changed) return;
+    this.persist();
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  public onChange(listener: ConsentListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Listens to an IAB TCF v2 CMP (`__tcfapi`), applying its signals as they
+   * arrive.
+   */
+  public connectTcf(): void {
+    const tcfapi = window.__tcfapi;
+    if (typeof tcfapi !== 'function') return;
+
+    tcfapi('addEventListener', 2, (tcData, success) => {
+      if (!success || !tcData) return;
+      if (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') return;
+
+      if (tcData.gdprApplies === false) {
+        this.update({ analytics: true, ads: true, identity: true });
+        return;
+      }
+
+      const purposeConsents = tcData.purpose?.consents || {};
+      const changes: Partial<Record<ConsentCategory, boolean>> = {};
+      CONSENT_CATEGORIES.forEach(category => {
+        changes[category] = TCF_PURPOSES[category].every(purpose => purposeConsents[purpose] === true);
+      });
+      this.update(changes);
+    });
+  }
+
+  /**
+   * Applies Google Consent Mode commands in `dataLayer`. Takes the listener
+   * from the dataLayer bridge, which is a separate bundle, and the
+   * tracker's log for listener failures.
+   */
+  public connectGoogleConsentMode(
+    onDataLayerPush: TrackerFeatures['datalayer']['onDataLayerPush'],
+    log: (...args: unknown[]) => void
+  ): void {
+    onDataLayerPush(entry => {
+      // gtag('consent', 'default' | 'update', {...}) pushes its arguments object
+      if (!isRecord(entry) || entry[0] !== 'consent') return;
+      const signals = entry[2];
+      if (!isRecord(signals)) return;
+
+      const changes: Partial<Record<ConsentCategory, ConsentState>> = {};
+      CONSENT_CATEGORIES.forEach(category => {
+        const signal = signals[GOOGLE_CONSENT_TYPES[category]];
+        if (signal === 'granted' || signal === 'denied') {
+          changes[category] = signal;
+        }
+      });
+      this.update(changes);
+    }, log);
+  }
+
+  private load(): ConsentSnapshot {
+    const states: ConsentSnapshot = { analytics: 'unknown', ads: 'unknown', identity: 'unknown' };
+
+    try {
+      const stored = localStorage.getItem(CONSENT_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        CONSENT_CATEGORIES.forEach(category => {
+          if (['unknown', 'granted', 'denied'].includes(parsed[category])) {
+            states[category] = parsed[category];
+          }
+        });
+        return states;
+      }
+
+      // Carry over the all-or-nothing flag written by earlier tracker versions
+      const legacy = localStorage.getItem(LEGACY_CONSENT_KEY);
+      if (legacy === 'true' || legacy === 'false') {
+        CONSENT_CATEGORIES.forEach(category => {
+          states[category] = legacy === 'true' ? 'granted' : 'denied';
+        });
+      }
+    } catch {
+      // Storage unavailable, fall back to region defaults
+    }
+
+    return states;
+  }
+
+  private persist(): void {
+    // The consent choice itself is strictly necessary, so it is stored
+    // regardless of what was chosen
+    try {
+      localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(this.states));
+      localStorage.removeItem(LEGACY_CONSENT_KEY);
+    } catch {
+      // Keep the choice for this page only
+    }
+  }
+}
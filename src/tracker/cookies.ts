@@ -0,0 +1,43 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CookieOptions {
+  expires?: number;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  domain?: string;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export function getCookie(name: string): string | undefined {
+  const prefix = `${name}=`;
+  const cookie = document.cookie.split('; ').find(entry => entry.startsWith(prefix));
+  return cookie === undefined ? undefined : safeDecode(cookie.slice(prefix.length));
+}
+
+/**
+ * Sets a cookie on path `/`. `expires` is in days; without it the cookie
+ * lasts for the browser session.
+ */
+export function setCookie(name: string, value: string, options: CookieOptions = {}): void {
+  const attributes = [`${name}=${encodeURIComponent(value)}`, 'path=/'];
+  if (options.expires !== undefined) {
+    attributes.push(`expires=${new Date(Date.now() + options.expires * DAY_MS).toUTCString()}`);
+  }
+  if (options.domain) {
+    attributes.push(`domain=${options.domain}`);
+  }
+  if (options.sameSite) {
+    attributes.push(`samesite=${options.sameSite}`);
+  }
+  document.cookie = attributes.join('; ');
+}
+
+export function removeCookie(name: string, options: Pick<CookieOptions, 'domain'> = {}): void {
+  setCookie(name, '', { ...options, expires: -1 });
+}
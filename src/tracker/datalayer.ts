@@ -0,0 +1,64 @@
+type DataLayerListener = (entry: unknown) => void;
+
+const listeners: Array<{ listener: DataLayerListener; log: (...args: unknown[]) => void }> = [];
+let hooked = false;
+
+function getDataLayer(): unknown[] {
+  window.dataLayer = window.dataLayer || [];
+  return window.dataLayer;
+}
+
+/**
+ * Narrows a dataLayer entry to something whose fields can be read: a GTM
+ * object or the arguments object gtag pushes.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Calls `listener` for every entry already in `window.dataLayer` and for
+ * each one pushed later. `push` is wrapped once and shared by all listeners,
+ * so GTM and gtag keep working as before. A listener that throws is
+ * reported through `log` and never breaks the page's push.
+ */
+export function onDataLayerPush(listener: DataLayerListener, log: (...args: unknown[]) => void = () => {}): void {
+  const dataLayer = getDataLayer();
+  const registration = { listener, log };
+  listeners.push(registration);
+  Array.from(dataLayer).forEach(entry => notify(registration, entry));
+
+  if (hooked) return;
+  hooked = true;
+
+  const originalPush = dataLayer.push.bind(dataLayer);
+  dataLayer.push = (...entries: unknown[]) => {
+    const result = originalPush(...entries);
+    entries.forEach(entry => listeners.forEach(registered => notify(registered, entry)));
+    return result;
+  };
+}
+
+function notify(registration: (typeof listeners)[number], entry: unknown): void {
+  try {
+    registration.listener(entry);
+  } catch (error) {
+    registration.log('dataLayer listener failed:', error);
+  }
+}
+
+/**
+ * Reads an event entry in either shape: GTM's `{ event: 'name', ...data }`
+ * or the arguments object gtag pushes for `gtag('event', 'name', {...})`.
+ */
+export function readDataLayerEvent(entry: unknown): { name: string; data: Record<string, unknown> } | null {
+  if (!isRecord(entry)) return null;
+
+  if (entry[0] === 'event' && typeof entry[1] === 'string') {
+    return { name: entry[1], data: isRecord(entry[2]) ? entry[2] : {} };
+  }
+  if (typeof entry.event === 'string') {
+    return { name: entry.event, data: entry };
+  }
+  return null;
+}
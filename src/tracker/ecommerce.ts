@@ -0,0 +1,82 @@
+import { isRecord, onDataLayerPush, readDataLayerEvent } from './datalayer';
+import { EcommerceData, EcommerceEventMapping, EcommerceItem } from './types';
+
+const MAX_ITEMS = 50;
+
+export const DEFAULT_ECOMMERCE_MAPPING: Record<string, EcommerceEventMapping> = {
+  view_item: { eventType: 'view_item' },
+  add_to_cart: { eventType: 'add_to_cart' },
+  begin_checkout: { eventType: 'begin_checkout' },
+  purchase: { eventType: 'conversion', conversionType: 'purchase' }
+};
+
+const ITEM_STRING_FIELDS = ['item_id', 'item_name', 'item_brand', 'item_category', 'item_variant'] as const;
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function readItems(items: unknown): EcommerceItem[] | undefined {
+  if (!Array.isArray(items)) return undefined;
+
+  return items.slice(0, MAX_ITEMS).filter(isRecord).map(item => {
+    const result: EcommerceItem = {};
+    ITEM_STRING_FIELDS.forEach(field => {
+      if (item[field] !== undefined && item[field] !== null) {
+        result[field] = String(item[field]);
+      }
+    });
+    result.price = toNumber(item.price);
+    result.quantity = toNumber(item.quantity);
+    return result;
+  });
+}
+
+/**
+ * Picks the fields we keep from a GA4 ecommerce payload. GTM pushes put them
+ * under `ecommerce`, gtag passes them directly.
+ */
+export function readEcommerceData(data: Record<string, unknown>): EcommerceData {
+  const source = isRecord(data.ecommerce) ? data.ecommerce : data;
+  const ecommerce: EcommerceData = {
+    value: toNumber(source.value),
+    currency: typeof source.currency === 'string' ? source.currency.toUpperCase() : undefined,
+    transaction_id: source.transaction_id !== undefined && source.transaction_id !== null
+      ? String(source.transaction_id)
+      : undefined,
+    items: readItems(source.items)
+  };
+
+  // Leave out what the push did not carry
+  (Object.keys(ecommerce) as (keyof EcommerceData)[]).forEach(key => {
+    if (ecommerce[key] === undefined) delete ecommerce[key];
+  });
+  return ecommerce;
+}
+
+/**
+ * Listens for GA4 ecommerce events in `dataLayer` and hands each mapped one
+ * to `onEvent`. The client mapping is merged over the defaults; mapping an
+ * event to `false` ignores it.
+ */
+export function watchEcommerce(
+  mapping: Record<string, EcommerceEventMapping | false> | undefined,
+  onEvent: (mapping: EcommerceEventMapping, data: EcommerceData, eventName: string) => void,
+  log: (...args: unknown[]) => void = () => {}
+): void {
+  const resolvedMapping: Record<string, EcommerceEventMapping | false> = {
+    ...DEFAULT_ECOMMERCE_MAPPING,
+    ...mapping
+  };
+
+  onDataLayerPush(entry => {
+    const event = readDataLayerEvent(entry);
+    if (!event) return;
+
+    const eventMapping = resolvedMapping[event.name];
+    if (!eventMapping) return;
+
+    onEvent(eventMapping, readEcommerceData(event.data), event.name);
+  }, log);
+}
@@ -0,0 +1,54 @@
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const MIN_REPORTED_ENGAGEMENT_MS = 1000;
+
+/**
+ * Measures how long the page is visible and focused, and reports the time
+ * accumulated since the last report on a fixed interval and when the page
+ * is hidden.
+ */
+export class EngagementTimer {
+  private engagedMs = 0;
+  private activeSince: number | null = null;
+  private onHeartbeat: (engagedMs: number) => void;
+
+  constructor(onHeartbeat: (engagedMs: number) => void) {
+    this.onHeartbeat = onHeartbeat;
+    this.updateState();
+
+    document.addEventListener('visibilitychange', () => {
+      this.updateState();
+      if (document.visibilityState === 'hidden') {
+        this.report();
+      }
+    });
+    window.addEventListener('focus', () => this.updateState());
+    window.addEventListener('blur', () => this.updateState());
+    window.addEventListener('pagehide', () => this.report());
+
+    setInterval(() => this.report(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  private isEngaged(): boolean {
+    return document.visibilityState === 'visible' && document.hasFocus();
+  }
+
+  private updateState(): void {
+    const now = Date.now();
+    if (this.activeSince !== null) {
+      this.engagedMs += now - this.activeSince;
+      this.activeSince = null;
+    }
+    if (this.isEngaged()) {
+      this.activeSince = now;
+    }
+  }
+
+  private report(): void {
+    this.updateState();
+    if (this.engagedMs < MIN_REPORTED_ENGAGEMENT_MS) return;
+
+    const engagedMs = this.engagedMs;
+    this.engagedMs = 0;
+    this.onHeartbeat(engagedMs);
+  }
+}
@@ -0,0 +1,5 @@
+import { registerFeature } from '../lazy';
+import { onDataLayerPush, readDataLayerEvent } from '../datalayer';
+import { readEcommerceData, watchEcommerce } from '../ecommerce';
+
+registerFeature('datalayer', { onDataLayerPush, readDataLayerEvent, readEcommerceData, watchEcommerce });
@@ -0,0 +1,4 @@
+import { registerFeature } from '../lazy';
+import { watchForms } from '../forms';
+
+registerFeature('forms', { watchForms });
@@ -0,0 +1,4 @@
+import { registerFeature } from '../lazy';
+import { DebugInspector } from '../inspector';
+
+registerFeature('inspector', { DebugInspector });
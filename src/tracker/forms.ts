@@ -0,0 +1,30 @@
+const EMAIL_INPUT_SELECTOR = 'input[type="email"], input[name="email"], input[name*="email"]';
+const CHECKOUT_SELECTOR = '[data-checkout="true"], .checkout-button, #checkout';
+
+export interface FormHandlers {
+  onEmail: (email: string) => void;
+  onCheckoutClick: () => void;
+}
+
+/**
+ * Reports the email typed into any submitted form, and clicks on checkout
+ * buttons.
+ */
+export function watchForms(handlers: FormHandlers): void {
+  document.addEventListener('submit', (event: Event) => {
+    const form = event.target as HTMLFormElement;
+    if (!form || !(form instanceof HTMLFormElement)) return;
+
+    const emailInput = form.querySelector(EMAIL_INPUT_SELECTOR) as HTMLInputElement;
+    if (emailInput?.value) {
+      handlers.onEmail(emailInput.value.trim().toLowerCase());
+    }
+  });
+
+  document.addEventListener('click', (event: Event) => {
+    const target = event.target as HTMLElement;
+    if (target.matches(CHECKOUT_SELECTOR) || target.closest(CHECKOUT_SELECTOR)) {
+      handlers.onCheckoutClick();
+    }
+  });
+}
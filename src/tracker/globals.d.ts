@@ -0,0 +1,28 @@
+import type { GTracker } from './index';
+import type { FeatureRegistry } from './lazy';
+import type { TrackerConfig } from './types';
+
+// The part of a TCF v2 `tcData` object the consent bridge reads
+interface TcfData {
+  eventStatus?: string;
+  gdprApplies?: boolean;
+  purpose?: { consents?: Record<string, boolean> };
+}
+
+declare global {
+  interface Window {
+    // IAB TCF v2 API of the site's consent platform
+    __tcfapi?: (
+      command: 'addEventListener',
+      version: 2,
+      callback: (tcData: TcfData | null, success: boolean) => void
+    ) => void;
+    // The tracker once loaded. Until then, the loader snippet's stub, which
+    // keeps the calls made on it in `q`
+    gTracker?: GTracker & { q?: ArrayLike<unknown>[] };
+    gTrackerConfig?: TrackerConfig;
+    // GTM and gtag's command queue, read by the dataLayer bridge
+    dataLayer?: unknown[];
+    __gTrackerFeatures?: FeatureRegistry;
+  }
+}
@@ -1,120 +1,356 @@
-import { v4 as uuidv4 } from 'uuid';
-import * as sha256Lib from 'js-sha256';
-import Cookies from 'js-cookie';
+import { EventQueue } from './queue';
+import { generateUuid } from './uuid';
+import { sha256Async } from './sha256';
+import { getCookie, removeCookie, setCookie } from './cookies';
+import { loadFeature, TrackerFeatures } from './lazy';
+import { TRACKER_VERSION } from './version';
+import { watchNavigation } from './navigation';
+import { SessionManager } from './session';
+import { EngagementTimer } from './engagement';
+import { ConsentManager } from './consent';
+import { CLICK_ID_REGISTRY } from '../../supabase/functions/_shared/click-ids';
+import { clearVisitorCookie, syncVisitorId } from './visitor';
+import { fetchTriggers, TriggerEngine } from './triggers';
+import { buildLinkerParam, decorateOutboundLinks, LINKER_PARAM, parseLinkerParam, stripLinkerParam } from './linker';
+import { BUILTIN_PLUGINS, BuiltinPluginName, PluginPipeline, sampling } from './plugins';
+import { fetchRemoteConfig } from './remote-config';
+import { findTrackerScript, mergeConfig, readDebugParam, readScriptConfig, ResolvedConfig, resolveConfig } from './config';
+import type { DebugInspector } from './inspector';
+import {
+  ClickIds,
+  ConsentCategory,
+  ConversionTrigger,
+  ConsentSnapshot,
+  ConsentState,
+  EcommerceData,
+  EcommerceEventMapping,
+  EventPayload,
+  EventProperties,
+  StoredClickId,
+  TrackerConfig,
+  TrackerPlugin,
+  UTMParams
+} from './types';
 
 // Constants
 const STORAGE_PREFIX = 'gtracker_';
 const VISITOR_ID_KEY = `${STORAGE_PREFIX}visitor_id`;
-const CONSENT_KEY = `${STORAGE_PREFIX}consent_given`;
-const API_ENDPOINT = 'https://ucczkgrnxvhxgnvrityk.supabase.co/functions/v1/event-capture';
-
-// Types
-interface ClickIds {
-  fbclid?: string;
-  gclid?: string;
-  ttclid?: string;
-  msclkid?: string;
-  [key: string]: string | undefined;
-}
-
-interface UTMParams {
-  source?: string;
-  medium?: string;
-  campaign?: string;
-  content?: string;
-  term?: string;
-}
-
-interface EventPayload {
-  client_id: string;
-  visitor_id: string;
-  event_type: string;
-  email_hash?: string;
-  utm_params?: UTMParams;
-  click_ids?: ClickIds;
-  timestamp: string;
-  page_url: string;
-  referrer?: string;
-}
+const USER_ID_KEY = `${STORAGE_PREFIX}user_id`;
+const VISITOR_COOKIE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UTM_STORAGE_KEY = `${STORAGE_PREFIX}utm`;
+const CLICK_IDS_STORAGE_KEY = `${STORAGE_PREFIX}click_ids`;
+const DEFAULT_CAMPAIGN_TTL_DAYS = 30;
+const PAID_MEDIUM_PATTERN = /^(cpc|ppc|cpm|cpv|cpa|paid|paid[_-]?\w+|display|retargeting)$/i;
+const TRACKING_STORAGE_KEYS = ['visitor_id', 'user_id', 'session', 'utm', 'click_ids', 'queue'].map(key => `${STORAGE_PREFIX}${key}`);
+
+type QueuedCall = [string, ...unknown[]];
+
+// Public methods of the tracker, the ones the loader snippet can queue
+type TrackerMethod = {
+  [K in keyof AttributionTracker]: AttributionTracker[K] extends (...args: never[]) => unknown ? K : never
+}[keyof AttributionTracker];
+
+// What the page sees as `window.gTracker`: callable like the loader
+// snippet's stub, e.g. gTracker('track', ...), with the public methods
+// attached for direct calls, e.g. gTracker.track(...)
+export type GTracker = ((method: string, ...args: unknown[]) => unknown) & Pick<AttributionTracker, TrackerMethod | 'version'>;
+
+const EVENT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const RESERVED_EVENT_NAMES = ['page_view', 'conversion', 'user_engagement', 'identify'];
 
 class AttributionTracker {
-  private clientId: string;
-  private visitorId: string;
+  public readonly version = TRACKER_VERSION;
+  private config: ResolvedConfig | null = null;
+  private clientId = '';
+  private visitorId = '';
+  private userId: string | null = null;
   private utmParams: UTMParams = {};
-  private clickIds: ClickIds = {};
-  private hasConsent: boolean = false;
-
-  constructor() {
-    console.log('AttributionTracker initializing...');
-    const clientId = this.getClientId();
-    if (!clientId) {
-      throw new Error('Client ID is required. Add data-client-id attribute to the script tag.');
-    }
-    console.log('Client ID:', clientId);
-    this.clientId = clientId;
-    this.checkConsent();
+  private campaignCapturedAt = 0;
+  private clickIds: Record<string, StoredClickId> = {};
+  private referrer = document.referrer;
+  private session: SessionManager | null = null;
+  private pendingCampaignKey: string | undefined;
+  private pageViewSkipped = false;
+  private visitorSynced = false;
+  private triggerEngine: TriggerEngine | null = null;
+  private consent: ConsentManager | null = null;
+  private queue: EventQueue | null = null;
+  private pendingCalls: Array<() => void> = [];
+  private plugins = new PluginPipeline((...args) => this.log(...args));
+  private inspector: Promise<DebugInspector | null> | null = null;
+  private starting = false;
+  private remoteTriggers: ConversionTrigger[] | null = null;
+  // The tag's debug setting, used by log() until start() resolves the config
+  private tagDebug = false;
+
+  /**
+   * Starts tracking. Unless `remoteConfig` is off, the client's dashboard
+   * settings are fetched first and fill in whatever the page does not set;
+   * calls made meanwhile are deferred as if init() had not run yet.
+   */
+  public init(config: TrackerConfig): void {
+    if (this.config || this.starting) {
+      this.log('AttributionTracker already initialized, ignoring init call');
+      return;
+    }
+
+    // The gt_debug URL parameter wins over the tag's configuration
+    const localConfig = mergeConfig(config, { debug: readDebugParam() });
+    this.tagDebug = Boolean(localConfig.debug);
+    const { clientId, endpoint, remoteConfig } = resolveConfig(localConfig);
+    if (!remoteConfig) {
+      this.start(localConfig);
+      return;
+    }
+
+    this.starting = true;
+    fetchRemoteConfig(endpoint, clientId, (...args) => this.log(...args))
+      .catch(error => {
+        this.log('Failed to load tracker config, starting with the tag configuration:', error);
+        return null;
+      })
+      .then(remote => {
+        this.remoteTriggers = remote?.triggers ?? null;
+        this.start(mergeConfig(remote?.config, localConfig));
+      });
+  }
+
+  private start(config: TrackerConfig): void {
+    this.starting = false;
+    this.config = resolveConfig(config);
+    this.log('AttributionTracker initializing...');
+    this.clientId = this.config.clientId;
+    this.log('Client ID:', this.clientId);
+    this.consent = new ConsentManager(this.config.consentDefaults, this.config.region);
+    this.consent.onChange(snapshot => this.handleConsentChange(snapshot));
     this.visitorId = this.getOrCreateVisitorId();
-    console.log('Visitor ID:', this.visitorId);
+    this.log('Visitor ID:', this.visitorId);
+    this.userId = this.hasConsent('identity') ? this.getFromStorage(USER_ID_KEY) : null;
+    if (this.config.sampleRate < 1) {
+      this.plugins.use(sampling({ rate: this.config.sampleRate }));
+    }
+    this.session = new SessionManager({
+      get: key => this.getFromStorage(key),
+      set: (key, value) => this.saveToStorage(key, value)
+    }, this.config.sessionTimeout);
+    // Created before the queue so the final heartbeat is queued before the
+    // queue flushes on page hide
+    new EngagementTimer(engagedMs => this.trackEvent('user_engagement', { engaged_time_ms: engagedMs }));
+    if (this.config.debug) {
+      this.loadInspector();
+    }
+    this.queue = new EventQueue({
+      endpoint: this.config.endpoint,
+      log: (...args) => this.log(...args),
+      onResult: (payloads, result) => {
+        if (result.status === 'sent') {
+          this.plugins.afterSend(payloads);
+        }
+        this.withInspector(inspector => inspector.recordResult(payloads, result));
+      }
+    });
+    if (this.config.cmpBridge) {
+      this.connectCmp();
+    }
+    this.reconcileVisitorId();
+    this.restoreCampaign();
     this.captureUrlParams();
-    this.setupFormListeners();
-    this.trackPageView();
+    if (this.config.formCapture) {
+      this.loadFormCapture();
+    }
+    if (this.config.linkerDomains.length > 0) {
+      decorateOutboundLinks(this.config.linkerDomains, () =>
+        this.hasConsent() ? buildLinkerParam(this.visitorId, this.clientId) : null
+      );
+    }
+    if (this.config.ecommerce) {
+      this.loadEcommerce();
+    }
+    if (this.config.autoPageview) {
+      this.trackPageView();
+    }
+    if (this.config.conversionTriggers) {
+      this.loadConversionTriggers();
+    }
+    if (this.config.spaNavigation) {
+      watchNavigation((url, previousUrl) => this.handleNavigation(url, previousUrl));
+    }
+
+    const pendingCalls = this.pendingCalls;
+    this.pendingCalls = [];
+    pendingCalls.forEach(call => call());
   }
 
-  private getClientId(): string {
-    const script = document.currentScript as HTMLScriptElement;
-    return script?.getAttribute('data-client-id') || '';
+  /**
+   * Defers a public API call until init() has run. Returns true when the
+   * call was deferred and the caller should stop.
+   */
+  private deferUntilReady(call: () => void): boolean {
+    if (this.config) return false;
+    this.pendingCalls.push(call);
+    return true;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.config ? this.config.debug : this.tagDebug) {
+      console.log(...args);
+    }
   }
 
-  private checkConsent(): void {
-    const consentValue = this.getFromStorage(CONSENT_KEY);
-    this.hasConsent = consentValue === 'true' || consentValue !== 'false';
+  private hasConsent(category: ConsentCategory = 'analytics'): boolean {
+    return this.consent?.allows(category) ?? false;
+  }
+
+  private handleConsentChange(snapshot: ConsentSnapshot): void {
+    this.log('Consent changed:', snapshot);
+
+    if (this.hasConsent('analytics')) {
+      this.persistVisitorId(this.visitorId);
+      this.reconcileVisitorId();
+      if (this.pageViewSkipped) {
+        this.trackPageView();
+      }
+      this.persistCampaign();
+    } else {
+      // Withdrawn consent: forget pending events and stored identifiers
+      this.queue?.clear();
+      TRACKING_STORAGE_KEYS.forEach(key => this.removeFromStorage(key));
+      if (this.config?.firstPartyMode && this.visitorSynced) {
+        clearVisitorCookie(this.config.endpoint, this.clientId, this.config.cookieDomain, (...args) => this.log(...args));
+        this.visitorSynced = false;
+      }
+    }
+
+    if (!this.hasConsent('ads')) {
+      this.removeFromStorage(CLICK_IDS_STORAGE_KEY);
+    }
+
+    if (!this.hasConsent('identity')) {
+      this.userId = null;
+      this.removeFromStorage(USER_ID_KEY);
+    }
+
+    this.withInspector(inspector => inspector.render());
   }
 
   private getOrCreateVisitorId(): string {
-    let visitorId = this.getFromStorage(VISITOR_ID_KEY);
+    // A visitor arriving through a decorated link from another of the
+    // client's domains keeps the id they had there
+    const linkedVisitorId = parseLinkerParam(
+      new URLSearchParams(window.location.search).get(LINKER_PARAM),
+      this.clientId
+    );
+    stripLinkerParam();
+    if (linkedVisitorId) {
+      this.log('Adopting visitor ID from cross-domain link:', linkedVisitorId);
+      this.persistVisitorId(linkedVisitorId);
+      return linkedVisitorId;
+    }
+
+    // A cookie on cookieDomain is shared across subdomains, so it wins over
+    // the per-origin localStorage copy
+    let visitorId = (this.config?.cookieDomain && getCookie(VISITOR_ID_KEY))
+      || this.getFromStorage(VISITOR_ID_KEY);
     
     if (!visitorId) {
-      visitorId = uuidv4();
-      if (this.hasConsent) {
-        this.saveToStorage(VISITOR_ID_KEY, visitorId);
-      }
+      visitorId = generateUuid();
     }
+    this.persistVisitorId(visitorId);
     
     return visitorId;
   }
 
+  private persistVisitorId(visitorId: string): void {
+    if (!this.hasConsent()) return;
+
+    this.saveToStorage(VISITOR_ID_KEY, visitorId);
+    if (this.config?.cookieDomain) {
+      setCookie(VISITOR_ID_KEY, visitorId, {
+        expires: VISITOR_COOKIE_DAYS,
+        sameSite: 'Lax',
+        domain: this.config.cookieDomain
+      });
+    }
+  }
+
+  /**
+   * In first-party mode, swaps the visitor id for the one kept in the
+   * server's HttpOnly cookie. Runs once per page, and only with consent
+   * since the server sets a cookie.
+   */
+  private async reconcileVisitorId(): Promise<void> {
+    if (!this.config?.firstPartyMode || this.visitorSynced || !this.hasConsent()) return;
+    this.visitorSynced = true;
+
+    const visitorId = await syncVisitorId(
+      this.config.endpoint,
+      this.clientId,
+      this.visitorId,
+      this.config.cookieDomain,
+      (...args) => this.log(...args)
+    );
+    if (!visitorId || visitorId === this.visitorId || !this.hasConsent()) return;
+
+    this.log('Visitor ID reconciled with server cookie:', { previous: this.visitorId, visitorId });
+    this.visitorId = visitorId;
+    this.persistVisitorId(visitorId);
+    this.withInspector(inspector => inspector.render());
+  }
+
   private saveToStorage(key: string, value: string): void {
-    if (!this.hasConsent) return;
+    if (!this.hasConsent()) return;
     
-    console.log('Saving to storage:', { key, value });
+    this.log('Saving to storage:', { key, value });
     try {
       localStorage.setItem(key, value);
-      console.log('Successfully saved to localStorage');
+      this.log('Successfully saved to localStorage');
+    } catch (e) {
+      this.log('localStorage failed, falling back to cookies:', e);
+      setCookie(key, value, {
+        expires: 30,
+        sameSite: 'Lax',
+        domain: this.config?.cookieDomain
+      });
+    }
+  }
+
+  private removeFromStorage(key: string): void {
+    try {
+      localStorage.removeItem(key);
     } catch (e) {
-      console.log('localStorage failed, falling back to cookies:', e);
-      Cookies.set(key, value, { expires: 30, sameSite: 'Lax' });
+      this.log('localStorage access failed:', e);
     }
+    removeCookie(key, { domain: this.config?.cookieDomain });
   }
 
   private getFromStorage(key: string): string | null {
-    console.log('Getting from storage:', key);
+    this.log('Getting from storage:', key);
     try {
       const value = localStorage.getItem(key);
       if (value) {
-        console.log('Found in localStorage:', value);
+        this.log('Found in localStorage:', value);
         return value;
       }
     } catch (e) {
-      console.log('localStorage access failed:', e);
+      this.log('localStorage access failed:', e);
     }
     
-    const cookieValue = Cookies.get(key);
-    console.log('Cookie value:', cookieValue);
+    const cookieValue = getCookie(key);
+    this.log('Cookie value:', cookieValue);
     return cookieValue || null;
   }
 
+  /**
+   * Reads UTM parameters and click IDs from the current URL. Runs on load and
+   * again after SPA navigations: new UTMs replace the previous campaign, new
+   * click IDs are merged in, and a URL without any keeps what we had. A URL
+   * reached from one of the client's own pages never replaces a paid
+   * campaign, so internal links tagged with UTMs do not steal its credit.
+   */
   private captureUrlParams(): void {
     const params = new URLSearchParams(window.location.search);
+    const ignoreUrlCampaign = this.isInternalReferrer(this.referrer) && this.isPaidCampaign();
     
     // Capture UTM parameters
     const utmParams: UTMParams = {};
@@ -124,166 +360,582 @@ class AttributionTracker {
         utmParams[param as keyof UTMParams] = value;
       }
     });
-    this.utmParams = utmParams;
 
-    // Capture click IDs
-    const clickIds: ClickIds = {};
-    ['fbclid', 'gclid', 'ttclid', 'msclkid'].forEach(param => {
-      const value = params.get(param);
-      if (value) {
-        clickIds[param] = value;
+    // Capture click IDs from the URL and platform cookies. A click id seen
+    // again keeps its first-seen time; its expiry follows the platform's
+    // attribution window from the last sighting
+    const now = Date.now();
+    const clickIds = { ...this.clickIds };
+    const landingClickIds: string[] = [];
+    CLICK_ID_REGISTRY.forEach(({ param, source, ttlDays }) => {
+      const value = source === 'url' ? params.get(param) : getCookie(param);
+      if (!value || (source === 'url' && ignoreUrlCampaign)) return;
+
+      if (source === 'url') {
+        landingClickIds.push(param);
       }
+      const previous = clickIds[param];
+      clickIds[param] = {
+        value,
+        first_seen_at: previous?.value === value ? previous.first_seen_at : now,
+        expires_at: now + (this.config?.attributionTtlDays ?? ttlDays) * DAY_MS
+      };
     });
     this.clickIds = clickIds;
 
-    // Save parameters if we have consent
-    if (this.hasConsent) {
-      if (Object.keys(this.utmParams).length > 0) {
-        this.saveToStorage(`${STORAGE_PREFIX}utm`, JSON.stringify(this.utmParams));
-      }
-      if (Object.keys(this.clickIds).length > 0) {
-        this.saveToStorage(`${STORAGE_PREFIX}click_ids`, JSON.stringify(this.clickIds));
-      }
+    if (ignoreUrlCampaign && Object.keys(utmParams).length > 0) {
+      this.log('Internal referrer, keeping the paid campaign over:', utmParams);
+    } else if (Object.keys(utmParams).length > 0) {
+      this.utmParams = utmParams;
+      this.campaignCapturedAt = now;
+    }
+
+    // A campaign on this URL starts a new session with the next hit, which
+    // becomes the landing hit carrying the campaign
+    if ((!ignoreUrlCampaign && Object.keys(utmParams).length > 0) || landingClickIds.length > 0) {
+      this.pendingCampaignKey = JSON.stringify([
+        utmParams.source,
+        utmParams.medium,
+        utmParams.campaign,
+        ...landingClickIds.map(param => clickIds[param].value)
+      ]);
     }
+
+    this.persistCampaign();
   }
 
-  private setupFormListeners(): void {
-    document.addEventListener('submit', async (event: Event) => {
-      const form = event.target as HTMLFormElement;
-      if (!form || !(form instanceof HTMLFormElement)) return;
+  /**
+   * Loads the campaign and click IDs saved by earlier page loads, dropping
+   * anything past its TTL. Restored values are used for conversions but do
+   * not start a new session or make the next hit a landing hit.
+   */
+  private restoreCampaign(): void {
+    const now = Date.now();
 
-      const emailInput = form.querySelector('input[type="email"], input[name="email"], input[name*="email"]') as HTMLInputElement;
-      if (emailInput?.value) {
-        const emailHash = await this.hashEmail(emailInput.value.trim().toLowerCase());
-        this.trackEvent('form_submit', emailHash);
+    try {
+      const storedUtm = JSON.parse(this.getFromStorage(UTM_STORAGE_KEY) || 'null');
+      if (storedUtm?.params && typeof storedUtm.captured_at === 'number' &&
+          now - storedUtm.captured_at < this.getCampaignTtlMs()) {
+        this.utmParams = storedUtm.params;
+        this.campaignCapturedAt = storedUtm.captured_at;
       }
-    });
+    } catch (e) {
+      this.log('Failed to restore stored campaign:', e);
+    }
 
-    // Listen for checkout button clicks
-    document.addEventListener('click', (event: Event) => {
-      const target = event.target as HTMLElement;
-      if (
-        target.matches('[data-checkout="true"], .checkout-button, #checkout') ||
-        target.closest('[data-checkout="true"], .checkout-button, #checkout')
-      ) {
-        this.trackEvent('checkout_click');
-      }
+    try {
+      const storedClickIds: Record<string, Partial<StoredClickId> | null> =
+        JSON.parse(this.getFromStorage(CLICK_IDS_STORAGE_KEY) || 'null') || {};
+      Object.entries(storedClickIds).forEach(([param, clickId]) => {
+        if (typeof clickId?.value === 'string' && typeof clickId.expires_at === 'number' && clickId.expires_at > now) {
+          this.clickIds[param] = clickId as StoredClickId;
+        }
+      });
+    } catch (e) {
+      this.log('Failed to restore stored click IDs:', e);
+    }
+
+    this.log('Restored campaign:', { utmParams: this.utmParams, clickIds: this.clickIds });
+  }
+
+  private persistCampaign(): void {
+    if (!this.hasConsent()) return;
+
+    if (Object.keys(this.utmParams).length > 0) {
+      this.saveToStorage(UTM_STORAGE_KEY, JSON.stringify({
+        params: this.utmParams,
+        captured_at: this.campaignCapturedAt
+      }));
+    }
+    if (this.hasConsent('ads') && Object.keys(this.clickIds).length > 0) {
+      this.saveToStorage(CLICK_IDS_STORAGE_KEY, JSON.stringify(this.clickIds));
+    }
+  }
+
+  private getCampaignTtlMs(): number {
+    return (this.config?.attributionTtlDays ?? DEFAULT_CAMPAIGN_TTL_DAYS) * DAY_MS;
+  }
+
+  /**
+   * The stored campaign, or undefined once it is older than its TTL.
+   */
+  private getCampaign(): UTMParams | undefined {
+    if (Object.keys(this.utmParams).length === 0) return undefined;
+    if (Date.now() - this.campaignCapturedAt >= this.getCampaignTtlMs()) return undefined;
+    return this.utmParams;
+  }
+
+  private isPaidCampaign(): boolean {
+    const now = Date.now();
+    const hasClickId = CLICK_ID_REGISTRY.some(({ param, source, identifiesClick }) =>
+      source === 'url' && identifiesClick && (this.clickIds[param]?.expires_at ?? 0) > now
+    );
+    return hasClickId || PAID_MEDIUM_PATTERN.test(this.getCampaign()?.medium || '');
+  }
+
+  /**
+   * True for referrers on the current host, the shared cookie domain or
+   * one of the linked domains.
+   */
+  private isInternalReferrer(referrer: string): boolean {
+    if (!referrer) return false;
+
+    let hostname: string;
+    try {
+      hostname = new URL(referrer).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    const domains = [
+      window.location.hostname,
+      this.config?.cookieDomain,
+      ...(this.config?.linkerDomains || [])
+    ].filter(Boolean).map(domain => domain!.replace(/^\./, '').toLowerCase());
+    return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+  }
+
+  private async loadFormCapture(): Promise<void> {
+    try {
+      const { watchForms } = await loadFeature('forms', this.config!.assetsUrl);
+      watchForms({
+        onEmail: async email => {
+          if (!this.hasConsent('identity')) return;
+          this.trackEvent('form_submit', { email_hash: await this.hashEmail(email) });
+        },
+        onCheckoutClick: () => this.trackEvent('checkout_click')
+      });
+    } catch (error) {
+      this.log('Failed to load form capture:', error);
+    }
+  }
+
+  /**
+   * Connects a TCF CMP right away and Google Consent Mode once the dataLayer
+   * bridge has loaded.
+   */
+  private async connectCmp(): Promise<void> {
+    this.consent!.connectTcf();
+    try {
+      const { onDataLayerPush } = await loadFeature('datalayer', this.config!.assetsUrl);
+      this.consent!.connectGoogleConsentMode(onDataLayerPush, (...args) => this.log(...args));
+    } catch (error) {
+      this.log('Failed to load the dataLayer bridge, skipping Google Consent Mode:', error);
+    }
+  }
+
+  private async loadEcommerce(): Promise<void> {
+    try {
+      const { watchEcommerce } = await loadFeature('datalayer', this.config!.assetsUrl);
+      watchEcommerce(
+        this.config!.ecommerceMapping,
+        (mapping, data, eventName) => this.handleEcommerceEvent(mapping, data, eventName),
+        (...args) => this.log(...args)
+      );
+    } catch (error) {
+      this.log('Failed to load the dataLayer bridge:', error);
+    }
+  }
+
+  /**
+   * Loads the debug panel. Events sent while it loads are recorded once it
+   * is ready, since every update waits on the same promise.
+   */
+  private loadInspector(): void {
+    this.inspector = loadFeature('inspector', this.config!.assetsUrl).then(({ DebugInspector }) =>
+      new DebugInspector(() => ({
+        clientId: this.clientId,
+        endpoint: this.config!.endpoint,
+        visitorId: this.visitorId,
+        userId: this.userId,
+        consent: this.getConsent(),
+        utmParams: this.getCampaign(),
+        clickIds: this.getAllowedClickIds() || {}
+      }))
+    ).catch(error => {
+      this.log('Failed to load the debug inspector:', error);
+      return null;
     });
   }
 
+  private withInspector(update: (inspector: DebugInspector) => void): void {
+    this.inspector?.then(inspector => inspector && update(inspector));
+  }
+
   private async hashEmail(email: string): Promise<string> {
-    return sha256Lib.sha256(email);
+    return sha256Async(email);
+  }
+
+  /**
+   * Hashes a phone number after reducing it to digits, keeping a leading
+   * `+`, so formatting differences do not produce different hashes.
+   */
+  private async hashPhone(phone: string): Promise<string> {
+    const trimmed = phone.trim();
+    const normalized = (trimmed.startsWith('+') ? '+' : '') + trimmed.replace(/\D/g, '');
+    return sha256Async(normalized);
   }
 
   private trackPageView(): void {
+    // Remember a page view made before consent so it can be sent once granted
+    this.pageViewSkipped = !this.hasConsent();
     this.trackEvent('page_view');
   }
 
-  private trackEvent(eventType: string, emailHash?: string): void {
-    if (!this.hasConsent) return;
+  private handleNavigation(url: string, previousUrl: string): void {
+    this.log('Navigation detected:', { url, previousUrl });
+    this.referrer = previousUrl;
+    this.captureUrlParams();
+    if (this.config?.autoPageview) {
+      this.trackPageView();
+    }
+    this.triggerEngine?.checkUrl(url);
+  }
 
+  /**
+   * Only the landing hit, the first one after a campaign was found on the
+   * URL, carries the campaign and click IDs. Later hits in the session
+   * point at it through their session_id.
+   */
+  private trackEvent(eventType: string, fields: Partial<EventPayload> = {}): void {
+    if (!this.hasConsent()) return;
+
+    const isLandingHit = this.pendingCampaignKey !== undefined;
     const payload: EventPayload = {
+      event_id: generateUuid(),
       client_id: this.clientId,
       visitor_id: this.visitorId,
+      session_id: this.getSessionId(),
       event_type: eventType,
       timestamp: new Date().toISOString(),
       page_url: window.location.href,
-      referrer: document.referrer || undefined,
-      utm_params: Object.keys(this.utmParams).length > 0 ? this.utmParams : undefined,
-      click_ids: Object.keys(this.clickIds).length > 0 ? this.clickIds : undefined
+      referrer: this.referrer || undefined,
+      utm_params: isLandingHit ? this.getCampaign() : undefined,
+      click_ids: isLandingHit ? this.getAllowedClickIds() : undefined,
+      user_id: this.userId || undefined,
+      consent: this.consent?.getSnapshot(),
+      ...fields
     };
 
-    if (emailHash) {
-      payload.email_hash = emailHash;
+    this.sendEvent(payload);
+  }
+
+  private async loadConversionTriggers(): Promise<void> {
+    const triggers = this.remoteTriggers ?? await fetchTriggers(this.config!.endpoint, this.clientId, (...args) => this.log(...args));
+    this.log('Conversion triggers loaded:', triggers.length);
+    if (triggers.length === 0) return;
+
+    let dataLayer: TrackerFeatures['datalayer'] | undefined;
+    if (triggers.some(trigger => trigger.trigger_type === 'datalayer_event')) {
+      try {
+        dataLayer = await loadFeature('datalayer', this.config!.assetsUrl);
+      } catch (error) {
+        this.log('Failed to load the dataLayer bridge, skipping dataLayer triggers:', error);
+      }
     }
 
-    this.sendEvent(payload);
+    this.triggerEngine = new TriggerEngine(
+      triggers,
+      (trigger, data) => this.handleTrigger(trigger, data),
+      dataLayer,
+      (...args) => this.log(...args)
+    );
   }
 
-  private sendEvent(payload: EventPayload): void {
-    console.log('Sending event:', payload);
-    if (navigator.sendBeacon) {
-      console.log('Using sendBeacon API');
-      const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' });
-      const success = navigator.sendBeacon(API_ENDPOINT, blob);
-      console.log('sendBeacon result:', success);
+  private handleTrigger(trigger: ConversionTrigger, data: EcommerceData = {}): void {
+    this.log('Conversion trigger fired:', trigger);
+    this.sendConversion(
+      trigger.conversion_type,
+      trigger.value ?? data.value,
+      trigger.currency ?? data.currency,
+      data
+    );
+  }
+
+  private handleEcommerceEvent(mapping: EcommerceEventMapping, data: EcommerceData, eventName: string): void {
+    this.log('Ecommerce event from dataLayer:', eventName, data);
+
+    if (mapping.eventType === 'conversion') {
+      this.sendConversion(mapping.conversionType || eventName, data.value, data.currency, data);
     } else {
-      console.log('Using fetch API');
-      fetch(API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload),
-        keepalive: true
-      })
-      .then(response => {
-        if (!response.ok) {
-          return response.text().then(text => {
-            console.error('Event API error:', {
-              status: response.status,
-              statusText: response.statusText,
-              body: text
-            });
-            throw new Error(`HTTP error! status: ${response.status}`);
-          });
-        }
-        return response.json();
-      })
-      .then(data => {
-        console.log('Event API response:', data);
-      })
-      .catch(error => {
-        console.error('Failed to send event:', error);
+      this.trackEvent(mapping.eventType, {
+        ecommerce: Object.keys(data).length > 0 ? data : undefined
       });
     }
   }
 
-  public trackConversion(conversionType: string, value?: number, currency?: string): void {
-    if (!this.hasConsent) return;
+  private getAllowedClickIds(): ClickIds | undefined {
+    if (!this.hasConsent('ads')) return undefined;
+
+    const now = Date.now();
+    const clickIds: ClickIds = {};
+    Object.entries(this.clickIds).forEach(([param, clickId]) => {
+      if (clickId.expires_at > now) {
+        clickIds[param] = clickId.value;
+      }
+    });
+    return Object.keys(clickIds).length > 0 ? clickIds : undefined;
+  }
+
+  private getSessionId(): string | undefined {
+    const campaignKey = this.pendingCampaignKey;
+    this.pendingCampaignKey = undefined;
+    return this.session?.touch(campaignKey);
+  }
+
+  /**
+   * Passes the payload through the plugins and queues what comes out.
+   * Returns the payload as queued, or null when a plugin dropped it.
+   */
+  private sendEvent(payload: EventPayload): EventPayload | null {
+    const processed = this.plugins.beforeSend(payload);
+    if (!processed) {
+      this.withInspector(inspector => inspector.recordEvent(payload, 'dropped by plugin'));
+      return null;
+    }
+
+    this.log('Queueing event:', processed);
+    this.queue?.enqueue(processed);
+    this.withInspector(inspector => inspector.recordEvent(processed, 'queued'));
+    return processed;
+  }
+
+  /**
+   * Registers a plugin that sees every event before it is sent. Pass a
+   * plugin object, or the name of a built-in plugin and its options, e.g.
+   * `use('sampling', { rate: 0.1 })`. Plugins can be registered before
+   * init() so they also apply to the first page view.
+   */
+  public use(plugin: TrackerPlugin | BuiltinPluginName, options?: unknown): void {
+    if (typeof plugin === 'string') {
+      if (!Object.prototype.hasOwnProperty.call(BUILTIN_PLUGINS, plugin)) {
+        this.log('Unknown tracker plugin:', plugin);
+        return;
+      }
+      const factory = BUILTIN_PLUGINS[plugin] as (options?: unknown) => TrackerPlugin;
+      this.plugins.use(factory(options ?? undefined));
+    } else {
+      this.plugins.use(plugin);
+    }
+  }
+
+  /**
+   * Sends a custom event with an optional bag of properties. Names are
+   * lowercase snake_case; property values must be strings, numbers,
+   * booleans or null.
+   */
+  public track(eventName: string, properties: EventProperties = {}): void {
+    if (this.deferUntilReady(() => this.track(eventName, properties))) return;
+
+    if (typeof eventName !== 'string' || !EVENT_NAME_PATTERN.test(eventName)) {
+      this.log('Invalid event name, use lowercase letters, digits and underscores:', eventName);
+      return;
+    }
+    if (RESERVED_EVENT_NAMES.includes(eventName)) {
+      this.log('Event name is reserved by the tracker:', eventName);
+      return;
+    }
+
+    const validProperties: EventProperties = {};
+    Object.entries(properties || {}).forEach(([key, value]) => {
+      if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        validProperties[key] = value;
+      } else {
+        this.log('Dropping event property with unsupported value type:', key);
+      }
+    });
+
+    this.trackEvent(eventName, {
+      properties: Object.keys(validProperties).length > 0 ? validProperties : undefined
+    });
+  }
+
+  /**
+   * Links the visitor to a known user. Email and phone are hashed before
+   * they leave the browser; `userId` is the site's own account id and is
+   * attached to every later event so the user stitches across devices.
+   */
+  public async identify(identity: {
+    email?: string;
+    userId?: string | number;
+    phone?: string;
+    traits?: EventProperties;
+  }): Promise<void> {
+    if (this.deferUntilReady(() => this.identify(identity))) return;
+    if (!this.hasConsent() || !this.hasConsent('identity')) return;
+
+    const fields: Partial<EventPayload> = {};
+    if (identity.email) {
+      fields.email_hash = await this.hashEmail(identity.email.trim().toLowerCase());
+    }
+    if (identity.phone) {
+      fields.phone_hash = await this.hashPhone(identity.phone);
+    }
+    if (identity.userId !== undefined && identity.userId !== null && identity.userId !== '') {
+      this.userId = String(identity.userId);
+      this.saveToStorage(USER_ID_KEY, this.userId);
+    }
+    if (identity.traits && Object.keys(identity.traits).length > 0) {
+      fields.traits = identity.traits;
+    }
+
+    if (!fields.email_hash && !fields.phone_hash && !this.userId) {
+      this.log('identify() needs an email, phone or userId');
+      return;
+    }
+
+    this.trackEvent('identify', fields);
+  }
+
+  /**
+   * Forgets the identified user, e.g. on logout. The anonymous visitor id
+   * is kept.
+   */
+  public reset(): void {
+    if (this.deferUntilReady(() => this.reset())) return;
+    this.userId = null;
+    this.removeFromStorage(USER_ID_KEY);
+  }
+
+  /**
+   * Records a conversion. Pass the order or transaction id when there is
+   * one, so the same order reported twice is only counted once.
+   */
+  public trackConversion(conversionType: string, value?: number, currency?: string, orderId?: string): void {
+    if (this.deferUntilReady(() => this.trackConversion(conversionType, value, currency, orderId))) return;
+    this.sendConversion(conversionType, value, currency, orderId ? { transaction_id: orderId } : {});
+  }
+
+  private sendConversion(conversionType: string, value?: number, currency?: string, ecommerce: EcommerceData = {}): void {
+    if (!this.hasConsent()) return;
+
+    const ecommerceData: EcommerceData = { ...ecommerce };
+    if (value !== undefined) ecommerceData.value = value;
+    if (currency !== undefined) ecommerceData.currency = currency;
 
     const payload: EventPayload = {
+      event_id: generateUuid(),
       client_id: this.clientId,
       visitor_id: this.visitorId,
+      session_id: this.getSessionId(),
       event_type: 'conversion',
       timestamp: new Date().toISOString(),
       page_url: window.location.href,
-      utm_params: Object.keys(this.utmParams).length > 0 ? this.utmParams : undefined,
-      click_ids: Object.keys(this.clickIds).length > 0 ? this.clickIds : undefined
+      // Conversions carry the stored campaign even outside the landing hit
+      utm_params: this.getCampaign(),
+      click_ids: this.getAllowedClickIds(),
+      user_id: this.userId || undefined,
+      consent: this.consent?.getSnapshot(),
+      ecommerce: Object.keys(ecommerceData).length > 0 ? ecommerceData : undefined
     };
 
-    this.sendEvent(payload);
-
-    // Send additional conversion details
-    fetch(`${API_ENDPOINT}/conversion`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        ...payload,
-        conversion_type: conversionType,
-        value,
-        currency
-      }),
-      keepalive: true
-    }).catch(error => {
-      console.error('Failed to send conversion event:', error);
+    const sent = this.sendEvent(payload);
+    if (!sent) return;
+
+    this.queue?.enqueueConversion({
+      client_id: sent.client_id,
+      visitor_id: sent.visitor_id,
+      conversion_type: conversionType,
+      value: ecommerceData.value,
+      currency: ecommerceData.currency,
+      transaction_id: ecommerceData.transaction_id,
+      // A thank-you page loaded twice repeats the transaction id, so the
+      // order is only counted once. Without one, the key belongs to this
+      // firing alone: retries of it reuse the key, a new firing gets its own
+      order_id: ecommerceData.transaction_id || generateUuid(),
+      user_id: sent.user_id,
+      timestamp: sent.timestamp
     });
   }
 
-  public setConsent(hasConsent: boolean): void {
-    this.hasConsent = hasConsent;
-    this.saveToStorage(CONSENT_KEY, hasConsent.toString());
+  /**
+   * Records the visitor's consent choice. Pass a boolean to grant or deny
+   * every category, or an object to set categories individually, e.g.
+   * `setConsent({ analytics: true, ads: false })`.
+   */
+  public setConsent(consent: boolean | Partial<Record<ConsentCategory, boolean | ConsentState>>): void {
+    if (this.deferUntilReady(() => this.setConsent(consent))) return;
 
-    if (hasConsent) {
-      this.saveToStorage(VISITOR_ID_KEY, this.visitorId);
+    if (typeof consent === 'boolean') {
+      this.consent!.update({ analytics: consent, ads: consent, identity: consent });
+    } else {
+      this.consent!.update(consent);
     }
   }
+
+  public getConsent(): ConsentSnapshot | null {
+    return this.consent?.getSnapshot() ?? null;
+  }
 }
 
-// Initialize and expose the tracker globally
+// Initialize and expose the tracker globally. Configuration is read from
+// the script tag's data-* attributes, then window.gTrackerConfig, then any
+// gTracker('init', {...}) call queued by the loader snippet.
+const trackerScript = findTrackerScript();
+const queuedCalls: QueuedCall[] = Array.from(window.gTracker?.q || [], args => Array.from(args) as QueuedCall);
+
+// Checked at compile time against the public API, so every public method
+// must be listed here and nothing private can be called through the queue
+const TRACKER_METHODS: Record<TrackerMethod, true> = {
+  init: true,
+  use: true,
+  track: true,
+  identify: true,
+  reset: true,
+  trackConversion: true,
+  setConsent: true,
+  getConsent: true
+};
+
+const isTrackerMethod = (method: string): method is TrackerMethod =>
+  Object.prototype.hasOwnProperty.call(TRACKER_METHODS, method);
+
 const tracker = new AttributionTracker();
-(window as any).gTracker = tracker;
+
+function callTracker(method: string, args: unknown[]): unknown {
+  if (isTrackerMethod(method)) {
+    return (tracker[method] as (...args: unknown[]) => unknown).apply(tracker, args);
+  }
+  if (debug) {
+    console.log('Unknown gTracker method:', method);
+  }
+  return undefined;
+}
+
+const trackerMethods = Object.fromEntries(Object.keys(TRACKER_METHODS).map(method => [
+  method,
+  (...args: unknown[]) => callTracker(method, args)
+])) as Pick<AttributionTracker, TrackerMethod>;
+
+window.gTracker = Object.assign(
+  (method: string, ...args: unknown[]) => callTracker(method, args),
+  { version: tracker.version } as const,
+  trackerMethods
+);
+
+// Plugins go in first so they see the page view sent by init
+queuedCalls.filter(([method]) => method === 'use').forEach(([, plugin, options]) =>
+  tracker.use(plugin as TrackerPlugin | BuiltinPluginName, options)
+);
+
+const initConfig = mergeConfig(
+  readScriptConfig(trackerScript),
+  window.gTrackerConfig,
+  ...queuedCalls.filter(([method]) => method === 'init').map(([, config]) => config as TrackerConfig)
+);
+
+// Module-level messages follow the same debug setting as the tracker's log
+const debug = readDebugParam() ?? initConfig.debug;
+
+if (initConfig.clientId) {
+  tracker.init(initConfig);
+} else if (debug) {
+  console.log('AttributionTracker loaded without a client ID, waiting for gTracker.init()');
+}
+
+queuedCalls.forEach(([method, ...args]) => {
+  if (method === 'init' || method === 'use') return;
+  callTracker(method, args);
+});
 
 export default tracker;
\ No newline at end of file
@@ -0,0 +1,165 @@
+import type { DeliveryResult } from './queue';
+import { ClickIds, ConsentSnapshot, EventPayload, UTMParams } from './types';
+
+const MAX_ENTRIES = 50;
+
+export interface InspectorState {
+  clientId: string;
+  endpoint: string;
+  visitorId: string;
+  userId: string | null;
+  consent: ConsentSnapshot | null;
+  utmParams?: UTMParams;
+  clickIds: ClickIds;
+}
+
+interface InspectorEntry {
+  payload: EventPayload;
+  at: Date;
+  status: string;
+  ok?: boolean;
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeResult(result: DeliveryResult): string {
+  if (result.transport === 'beacon') return 'sent (beacon)';
+  const status = result.httpStatus ? ` HTTP ${result.httpStatus}` : '';
+  return result.status === 'failed' ? `failed${status}, retrying` : `${result.status}${status}`;
+}
+
+const STYLES = `
+  :host { all: initial; }
+  .panel {
+    position: fixed; right: 12px; bottom: 12px; z-index: 2147483647;
+    width: 360px; max-height: 60vh; display: flex; flex-direction: column;
+    background: #111827; color: #e5e7eb; border-radius: 8px;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.3);
+    font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+  }
+  .panel.collapsed { width: auto; }
+  .panel.collapsed .body { display: none; }
+  .header {
+    display: flex; justify-content: space-between; align-items: center;
+    padding: 6px 10px; cursor: pointer; font-weight: bold; user-select: none;
+  }
+  .body { overflow: auto; padding: 0 10px 10px; }
+  h4 { margin: 8px 0 4px; font-size: 11px; color: #9ca3af; text-transform: uppercase; }
+  dl { margin: 0; display: grid; grid-template-columns: max-content 1fr; gap: 2px 8px; }
+  dt { color: #9ca3af; }
+  dd { margin: 0; word-break: break-all; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li { padding: 4px 0; border-top: 1px solid #374151; }
+  .ok { color: #34d399; }
+  .error { color: #f87171; }
+  .pending { color: #fbbf24; }
+  .url { color: #9ca3af; word-break: break-all; }
+`;
+
+/**
+ * In-page panel shown in debug mode, listing what the tracker knows about
+ * the visitor and every event it sent, so an install can be checked
+ * without devtools. It renders into a shadow root to stay clear of the
+ * site's styles.
+ */
+export class DebugInspector {
+  private getState: () => InspectorState;
+  private entries: InspectorEntry[] = [];
+  private entriesByPayload = new WeakMap<EventPayload, InspectorEntry>();
+  private root: ShadowRoot | null = null;
+  private collapsed = false;
+
+  constructor(getState: () => InspectorState) {
+    this.getState = getState;
+
+    if (document.body) {
+      this.mount();
+    } else {
+      document.addEventListener('DOMContentLoaded', () => this.mount());
+    }
+  }
+
+  public recordEvent(payload: EventPayload, status: 'queued' | 'dropped by plugin'): void {
+    const entry: InspectorEntry = { payload, at: new Date(), status, ok: status === 'queued' ? undefined : false };
+    this.entries.unshift(entry);
+    this.entries.splice(MAX_ENTRIES);
+    this.entriesByPayload.set(payload, entry);
+    this.render();
+  }
+
+  public recordResult(payloads: EventPayload[], result: DeliveryResult): void {
+    payloads.forEach(payload => {
+      let entry = this.entriesByPayload.get(payload);
+      if (!entry) {
+        // Events restored from the queue of an earlier page
+        entry = { payload, at: new Date(payload.timestamp), status: '' };
+        this.entries.push(entry);
+        this.entriesByPayload.set(payload, entry);
+      }
+      entry.status = describeResult(result);
+      entry.ok = result.status === 'sent' ? true : result.status === 'rejected' ? false : undefined;
+    });
+    this.entries.splice(MAX_ENTRIES);
+    this.render();
+  }
+
+  public render(): void {
+    if (!this.root) return;
+
+    const state = this.getState();
+    const consent = state.consent
+      ? Object.entries(state.consent).map(([category, value]) => `${category}: ${value}`).join(', ')
+      : 'unknown';
+    const utm = Object.entries(state.utmParams || {}).map(([key, value]) => `${key}=${value}`).join(', ');
+    const clickIds = Object.entries(state.clickIds).map(([key, value]) => `${key}=${value}`).join(', ');
+
+    const events = this.entries.map(entry => {
+      const statusClass = entry.ok === true ? 'ok' : entry.ok === false ? 'error' : 'pending';
+      return `<li>
+        <div><strong>${escapeHtml(entry.payload.event_type)}</strong>
+          <span class="${statusClass}">${escapeHtml(entry.status)}</span>
+          <span class="url">${escapeHtml(entry.at.toLocaleTimeString())}</span></div>
+        <div class="url">${escapeHtml(entry.payload.page_url)}</div>
+      </li>`;
+    }).join('');
+
+    const scrollTop = this.root.querySelector('.body')?.scrollTop ?? 0;
+    this.root.innerHTML = `<style>${STYLES}</style>
+      <div class="panel${this.collapsed ? ' collapsed' : ''}">
+        <div class="header"><span>gTracker debug</span><span>${this.collapsed ? '+' : '&minus;'}</span></div>
+        <div class="body">
+          <dl>
+            <dt>Client</dt><dd>${escapeHtml(state.clientId)}</dd>
+            <dt>Endpoint</dt><dd>${escapeHtml(state.endpoint)}</dd>
+            <dt>Visitor</dt><dd>${escapeHtml(state.visitorId)}</dd>
+            <dt>User</dt><dd>${escapeHtml(state.userId || '-')}</dd>
+            <dt>Consent</dt><dd>${escapeHtml(consent)}</dd>
+            <dt>UTMs</dt><dd>${escapeHtml(utm || '-')}</dd>
+            <dt>Click IDs</dt><dd>${escapeHtml(clickIds || '-')}</dd>
+          </dl>
+          <h4>Events</h4>
+          <ul>${events || '<li>No events yet</li>'}</ul>
+        </div>
+      </div>`;
+
+    this.root.querySelector('.body')!.scrollTop = scrollTop;
+    this.root.querySelector('.header')?.addEventListener('click', () => {
+      this.collapsed = !this.collapsed;
+      this.render();
+    });
+  }
+
+  private mount(): void {
+    const host = document.createElement('div');
+    host.setAttribute('data-gtracker-inspector', '');
+    document.body.appendChild(host);
+    this.root = host.attachShadow({ mode: 'open' });
+    this.render();
+  }
+}
@@ -0,0 +1,119 @@
+import type { DebugInspector } from './inspector';
+import type { onDataLayerPush, readDataLayerEvent } from './datalayer';
+import type { readEcommerceData, watchEcommerce } from './ecommerce';
+import type { watchForms } from './forms';
+
+// Optional parts of the tracker, each built into its own `tracker-<name>.js`
+// bundle and loaded only when the configuration needs it
+export interface TrackerFeatures {
+  forms: {
+    watchForms: typeof watchForms;
+  };
+  datalayer: {
+    onDataLayerPush: typeof onDataLayerPush;
+    readDataLayerEvent: typeof readDataLayerEvent;
+    readEcommerceData: typeof readEcommerceData;
+    watchEcommerce: typeof watchEcommerce;
+  };
+  inspector: {
+    DebugInspector: typeof DebugInspector;
+  };
+}
+
+export type FeatureName = keyof TrackerFeatures;
+
+// Shared through window because the core and each feature are separate bundles
+export interface FeatureRegistry {
+  modules: Partial<TrackerFeatures>;
+  waiting: Partial<Record<FeatureName, Array<() => void>>>;
+}
+
+// The versioned path of a release published to serve-tracker, whose
+// manifest lists the SRI hash of every file
+const SERVE_TRACKER_ASSETS = /^(.*\/serve-tracker)\/v\/(\d+\.\d+\.\d+)$/;
+const loading: Partial<Record<FeatureName, Promise<unknown>>> = {};
+let integrityHashes: Promise<Record<string, string> | null> | null = null;
+
+function getRegistry(): FeatureRegistry {
+  window.__gTrackerFeatures = window.__gTrackerFeatures || { modules: {}, waiting: {} };
+  return window.__gTrackerFeatures;
+}
+
+/**
+ * Called by a feature bundle once it has run, handing its exports to the
+ * core.
+ */
+export function registerFeature<K extends FeatureName>(name: K, module: TrackerFeatures[K]): void {
+  const registry = getRegistry();
+  registry.modules[name] = module;
+
+  const waiting = registry.waiting[name] || [];
+  delete registry.waiting[name];
+  waiting.forEach(resolve => resolve());
+}
+
+/**
+ * Reads the SRI hashes of the release `assetsUrl` points to from the
+ * serve-tracker manifest, requested once per page. Resolves to null for
+ * assets hosted elsewhere, which have no manifest.
+ */
+function loadIntegrityHashes(assetsUrl: string): Promise<Record<string, string> | null> {
+  const match = assetsUrl.match(SERVE_TRACKER_ASSETS);
+  if (!match) return Promise.resolve(null);
+
+  if (!integrityHashes) {
+    integrityHashes = fetch(`${match[1]}/versions`)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load tracker manifest: ${response.status}`);
+        return response.json();
+      })
+      .then(manifest => manifest.versions?.[match[2]]?.files || {});
+  }
+  return integrityHashes;
+}
+
+/**
+ * Loads `tracker-<name>.js` from `assetsUrl` unless the feature is already
+ * present. Concurrent calls share one request. A feature served by
+ * serve-tracker is only loaded with the integrity hash from its manifest.
+ */
+export function loadFeature<K extends FeatureName>(name: K, assetsUrl: string | undefined): Promise<TrackerFeatures[K]> {
+  const registry = getRegistry();
+  const loaded = registry.modules[name];
+  if (loaded) return Promise.resolve(loaded as TrackerFeatures[K]);
+
+  if (!loading[name]) {
+    if (!assetsUrl) {
+      return Promise.reject(new Error(`Cannot load tracker feature ${name}, set assetsUrl`));
+    }
+
+    const baseUrl = assetsUrl.replace(/\/+$/, '');
+    const file = `tracker-${name}.js`;
+    loading[name] = loadIntegrityHashes(baseUrl).then(hashes => new Promise<void>((resolve, reject) => {
+      const integrity = hashes?.[file];
+      if (hashes && !integrity) {
+        reject(new Error(`Failed to load tracker feature ${name}, not in the manifest`));
+        return;
+      }
+
+      const waiting: Array<() => void> = registry.waiting[name] || [];
+      waiting.push(() => resolve());
+      registry.waiting[name] = waiting;
+
+      const script = document.createElement('script');
+      script.src = `${baseUrl}/${file}`;
+      script.async = true;
+      if (integrity) {
+        script.integrity = integrity;
+        script.crossOrigin = 'anonymous';
+      }
+      script.onerror = () => reject(new Error(`Failed to load tracker feature ${name} from ${script.src}`));
+      (document.head || document.documentElement).appendChild(script);
+    })).then(() => registry.modules[name], error => {
+      delete loading[name];
+      throw error;
+    });
+  }
+
+  return loading[name] as Promise<TrackerFeatures[K]>;
+}
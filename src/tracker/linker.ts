@@ -0,0 +1,123 @@
+import { sha256 } from './sha256';
+
+export const LINKER_PARAM = '_gt';
+const LINKER_VERSION = '1';
+const LINKER_MAX_AGE_SECONDS = 120;
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/**
+ * Signs the linker fields together with a fingerprint of the browser. There
+ * is no secret a public script could keep, so the signature cannot stop a
+ * forged id; what it does is tie the parameter to the browser that created
+ * it, so a copied or shared link does not hand the visitor id to someone
+ * else once it has expired.
+ */
+function sign(visitorId: string, timestamp: string, clientId: string): string {
+  const fingerprint = [
+    navigator.userAgent,
+    navigator.language,
+    Intl.DateTimeFormat().resolvedOptions().timeZone || ''
+  ].join('|');
+  return sha256([LINKER_VERSION, visitorId, timestamp, clientId, fingerprint].join('*')).slice(0, 16);
+}
+
+export function buildLinkerParam(visitorId: string, clientId: string): string {
+  const timestamp = Math.floor(Date.now() / 1000).toString(36);
+  return [LINKER_VERSION, visitorId, timestamp, sign(visitorId, timestamp, clientId)].join('*');
+}
+
+/**
+ * Returns the visitor id carried by a `_gt` parameter, or null when the
+ * parameter is missing, malformed, tampered with or too old.
+ */
+export function parseLinkerParam(value: string | null, clientId: string): string | null {
+  if (!value) return null;
+
+  const [version, visitorId, timestamp, signature] = value.split('*');
+  if (version !== LINKER_VERSION || !VISITOR_ID_PATTERN.test(visitorId || '') || !timestamp || !signature) {
+    return null;
+  }
+
+  const ageSeconds = Math.floor(Date.now() / 1000) - parseInt(timestamp, 36);
+  if (!Number.isFinite(ageSeconds) || ageSeconds < 0 || ageSeconds > LINKER_MAX_AGE_SECONDS) {
+    return null;
+  }
+
+  return sign(visitorId, timestamp, clientId) === signature ? visitorId : null;
+}
+
+/**
+ * Removes the linker parameter from the address bar so it does not end up
+ * in bookmarks or shared links.
+ */
+export function stripLinkerParam(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(LINKER_PARAM)) return;
+
+  url.searchParams.delete(LINKER_PARAM);
+  history.replaceState(history.state, '', url.toString());
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  if (hostname === window.location.hostname) return false;
+  return domains.some(domain => {
+    const normalized = domain.replace(/^\./, '').toLowerCase();
+    return hostname === normalized || hostname.endsWith(`.${normalized}`);
+  });
+}
+
+/**
+ * Adds a fresh linker parameter to links and forms that lead to one of the
+ * given domains. Decoration happens as the visitor follows the link, so the
+ * timestamp is current. `getParam` returns null when linking is not allowed.
+ */
+export function decorateOutboundLinks(domains: string[], getParam: () => string | null): void {
+  const decorateLink = (event: Event) => {
+    const link = (event.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+    if (!link || !/^https?:$/.test(link.protocol) || !matchesDomain(link.hostname, domains)) return;
+
+    const param = getParam();
+    if (!param) return;
+
+    const url = new URL(link.href);
+    url.searchParams.set(LINKER_PARAM, param);
+    link.href = url.toString();
+  };
+
+  // mousedown and keydown also cover middle clicks and keyboard navigation,
+  // which do not always fire click
+  ['mousedown', 'keydown', 'click'].forEach(type => {
+    document.addEventListener(type, decorateLink, true);
+  });
+
+  document.addEventListener('submit', (event: Event) => {
+    const form = event.target as HTMLFormElement;
+    if (!(form instanceof HTMLFormElement)) return;
+
+    let action: URL;
+    try {
+      action = new URL(form.action, window.location.href);
+    } catch {
+      return;
+    }
+    if (!/^https?:$/.test(action.protocol) || !matchesDomain(action.hostname, domains)) return;
+
+    const param = getParam();
+    if (!param) return;
+
+    if (form.method.toLowerCase() === 'get') {
+      // GET forms replace the action's query string with their fields
+      let input = form.querySelector<HTMLInputElement>(`input[name="${LINKER_PARAM}"]`);
+      if (!input) {
+        input = document.createElement('input');
+        input.type = 'hidden';
+        input.name = LINKER_PARAM;
+        form.appendChild(input);
+      }
+      input.value = param;
+    } else {
+      action.searchParams.set(LINKER_PARAM, param);
+      form.action = action.toString();
+    }
+  }, true);
+}
@@ -0,0 +1,56 @@
+const NAVIGATION_DEBOUNCE_MS = 100;
+const NAVIGATION_EVENT = 'gtracker:navigation';
+
+type NavigationHandler = (url: string, previousUrl: string) => void;
+
+let historyPatched = false;
+
+/**
+ * Wraps history.pushState/replaceState so route changes made by SPA routers
+ * dispatch an event we can listen to. Patched once per page, whatever the
+ * number of watchers.
+ */
+function patchHistory(): void {
+  if (historyPatched) return;
+  historyPatched = true;
+
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      window.dispatchEvent(new Event(NAVIGATION_EVENT));
+      return result;
+    };
+  });
+}
+
+/**
+ * Calls `onChange` whenever the page URL changes without a full load.
+ * Bursts of changes (routers often push then replace straight away) are
+ * collapsed into one call, and changes back to the same URL are ignored.
+ */
+export function watchNavigation(onChange: NavigationHandler): void {
+  patchHistory();
+
+  let currentUrl = window.location.href;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleChange = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      const url = window.location.href;
+      if (url === currentUrl) return;
+
+      const previousUrl = currentUrl;
+      currentUrl = url;
+      onChange(url, previousUrl);
+    }, NAVIGATION_DEBOUNCE_MS);
+  };
+
+  window.addEventListener(NAVIGATION_EVENT, handleChange);
+  window.addEventListener('popstate', handleChange);
+  window.addEventListener('hashchange', handleChange);
+}
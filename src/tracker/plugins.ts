@@ -0,0 +1,205 @@
+import { EventPayload, TrackerPlugin } from './types';
+
+const REDACTED = 'REDACTED';
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/;
+const DEFAULT_PII_PARAMS = [
+  'email', 'e-mail', 'mail', 'phone', 'tel', 'mobile',
+  'name', 'firstname', 'first_name', 'lastname', 'last_name', 'fullname', 'full_name',
+  'address', 'street', 'zip', 'zipcode', 'postcode', 'dob', 'birthdate', 'ssn',
+  'password', 'pass', 'pwd', 'token', 'access_token', 'id_token', 'auth', 'code'
+];
+const UNSAMPLED_EVENT_TYPES = ['conversion', 'identify'];
+
+/**
+ * Runs registered plugins over outgoing events, in registration order. A
+ * plugin that throws is skipped so a broken plugin never stops tracking.
+ */
+export class PluginPipeline {
+  private plugins: TrackerPlugin[] = [];
+
+  constructor(private log: (...args: unknown[]) => void = () => {}) {}
+
+  public use(plugin: TrackerPlugin): void {
+    if (!plugin || typeof plugin.name !== 'string' || !plugin.name) {
+      this.log('Tracker plugins need a name:', plugin);
+      return;
+    }
+    if (this.plugins.some(existing => existing.name === plugin.name)) {
+      this.log('Tracker plugin already registered:', plugin.name);
+      return;
+    }
+    this.plugins.push(plugin);
+    this.log('Plugin registered:', plugin.name);
+  }
+
+  /**
+   * Returns the payload to send, or null when a plugin dropped it.
+   */
+  public beforeSend(payload: EventPayload): EventPayload | null {
+    let current = payload;
+    for (const plugin of this.plugins) {
+      if (!plugin.beforeSend) continue;
+
+      try {
+        const result = plugin.beforeSend(current);
+        if (result === null || result === false) {
+          this.log(`Event dropped by plugin ${plugin.name}:`, current);
+          return null;
+        }
+        if (result) {
+          current = result;
+        }
+      } catch (e) {
+        this.log(`Tracker plugin ${plugin.name} failed in beforeSend:`, e);
+      }
+    }
+    return current;
+  }
+
+  public afterSend(payloads: EventPayload[]): void {
+    this.plugins.forEach(plugin => {
+      if (!plugin.afterSend) return;
+
+      payloads.forEach(payload => {
+        try {
+          plugin.afterSend!(payload);
+        } catch (e) {
+          this.log(`Tracker plugin ${plugin.name} failed in afterSend:`, e);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Applies `transform` to a URL. Returns the URL untouched when it does not
+ * parse or nothing changed, so its original encoding is preserved.
+ */
+function rewriteUrl(value: string | undefined, transform: (url: URL) => boolean): string | undefined {
+  if (!value) return value;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  return transform(url) ? url.toString() : value;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Replaces the values of query parameters that commonly carry personal data
+ * (email, phone, name, tokens, ...) in `page_url` and `referrer`, as well as
+ * any parameter whose value looks like an email address.
+ */
+export function scrubPii(options: { params?: string[] } = {}): TrackerPlugin {
+  const params = new Set([...DEFAULT_PII_PARAMS, ...(options.params || [])].map(param => param.toLowerCase()));
+
+  const scrub = (url: URL): boolean => {
+    const keys = Array.from(new Set(url.searchParams.keys())).filter(key =>
+      params.has(key.toLowerCase()) ||
+      url.searchParams.getAll(key).some(value => value !== REDACTED && EMAIL_PATTERN.test(value))
+    );
+    keys.forEach(key => url.searchParams.set(key, REDACTED));
+
+    const segments = url.pathname.split('/');
+    const pathHasEmail = segments.some(segment => EMAIL_PATTERN.test(safeDecode(segment)));
+    if (pathHasEmail) {
+      url.pathname = segments.map(segment => EMAIL_PATTERN.test(safeDecode(segment)) ? REDACTED : segment).join('/');
+    }
+    return keys.length > 0 || pathHasEmail;
+  };
+
+  return {
+    name: 'scrub-pii',
+    beforeSend: payload => {
+      payload.page_url = rewriteUrl(payload.page_url, scrub) || payload.page_url;
+      payload.referrer = rewriteUrl(payload.referrer, scrub);
+    }
+  };
+}
+
+/**
+ * Rewrites `page_url` to a canonical form so one page is not split across
+ * several URLs: the fragment and trailing slash are removed, listed query
+ * parameters are dropped and the remaining ones are sorted.
+ */
+export function canonicalUrl(options: {
+  stripParams?: string[];
+  stripHash?: boolean;
+  stripTrailingSlash?: boolean;
+  sortParams?: boolean;
+} = {}): TrackerPlugin {
+  const stripParams = new Set((options.stripParams || []).map(param => param.toLowerCase()));
+  const stripHash = options.stripHash ?? true;
+  const stripTrailingSlash = options.stripTrailingSlash ?? true;
+  const sortParams = options.sortParams ?? true;
+
+  const canonicalize = (url: URL): boolean => {
+    const before = url.toString();
+    Array.from(url.searchParams.keys())
+      .filter(key => stripParams.has(key.toLowerCase()))
+      .forEach(key => url.searchParams.delete(key));
+    if (sortParams) {
+      url.searchParams.sort();
+    }
+    if (stripHash) {
+      url.hash = '';
+    }
+    if (stripTrailingSlash && url.pathname.length > 1) {
+      url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+    return url.toString() !== before;
+  };
+
+  return {
+    name: 'canonical-url',
+    beforeSend: payload => {
+      payload.page_url = rewriteUrl(payload.page_url, canonicalize) || payload.page_url;
+    }
+  };
+}
+
+/**
+ * Keeps the events of a share of visitors, e.g. `rate: 0.1` keeps one in
+ * ten. The decision hashes the visitor id, so a sampled visitor keeps all
+ * of their events. Conversions and identify calls are always sent.
+ */
+export function sampling(options: { rate: number; keepEventTypes?: string[] }): TrackerPlugin {
+  const rate = Number.isFinite(options?.rate) ? Math.min(Math.max(options.rate, 0), 1) : 1;
+  const keepEventTypes = options?.keepEventTypes || UNSAMPLED_EVENT_TYPES;
+
+  return {
+    name: 'sampling',
+    beforeSend: payload => {
+      if (keepEventTypes.includes(payload.event_type)) return;
+      if (hashToUnit(payload.visitor_id) >= rate) return null;
+    }
+  };
+}
+
+// FNV-1a, mapped onto [0, 1)
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+export const BUILTIN_PLUGINS = {
+  'scrub-pii': scrubPii,
+  'canonical-url': canonicalUrl,
+  sampling
+} as const;
+
+export type BuiltinPluginName = keyof typeof BUILTIN_PLUGINS;
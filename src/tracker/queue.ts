@@ -0,0 +1,320 @@
+import { ConversionPayload, EventPayload } from './types';
+
+const QUEUE_STORAGE_KEY = 'gtracker_queue';
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+// Items queued before conversions went through the queue have no type
+interface QueuedEvent {
+  id: string;
+  type?: 'event' | 'conversion';
+  payload: EventPayload | ConversionPayload;
+  attempts: number;
+  next_attempt_at: number;
+}
+
+// Outcome of one item, as listed by /v1/batch
+interface BatchItemResult {
+  status: 'accepted' | 'rejected' | 'failed';
+  error?: string;
+  issues?: { field: string; message: string }[];
+}
+
+// Outcome of one delivery attempt for some of the events in a batch
+export interface DeliveryResult {
+  status: 'sent' | 'rejected' | 'failed';
+  transport: 'fetch' | 'beacon';
+  httpStatus?: number;
+}
+
+export interface EventQueueOptions {
+  endpoint: string;
+  maxQueueSize?: number;
+  batchSize?: number;
+  flushDelay?: number;
+  log?: (...args: unknown[]) => void;
+  onResult?: (payloads: EventPayload[], result: DeliveryResult) => void;
+}
+
+const toBatchItem = (item: QueuedEvent) => ({ type: item.type || 'event', ...item.payload });
+
+/**
+ * Reads the per-item results of a /v1/batch response. Resolves to null when
+ * the body has none, in which case every item counts as accepted.
+ */
+async function readResults(response: Response): Promise<BatchItemResult[] | null> {
+  try {
+    const body = await response.json();
+    return Array.isArray(body?.results) ? body.results : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persistent queue that batches tracker events and conversions and retries
+ * failed sends with exponential backoff. Items the server reports as failed
+ * are retried on their own and rejected ones are dropped. The queue
+ * survives reloads via localStorage, so anything left over from a previous
+ * page is sent on the next load.
+ */
+export class EventQueue {
+  private endpoint: string;
+  private maxQueueSize: number;
+  private batchSize: number;
+  private flushDelay: number;
+  private log: (...args: unknown[]) => void;
+  private onResult: (payloads: EventPayload[], result: DeliveryResult) => void;
+  private items: QueuedEvent[] = [];
+  private inFlight = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: EventQueueOptions) {
+    this.endpoint = options.endpoint;
+    this.maxQueueSize = options.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE;
+    this.batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    this.flushDelay = options.flushDelay || DEFAULT_FLUSH_DELAY;
+    this.log = options.log || (() => {});
+    this.onResult = options.onResult || (() => {});
+    this.items = this.load();
+    this.setupListeners();
+
+    if (this.items.length > 0) {
+      this.scheduleFlush(0);
+    }
+  }
+
+  public enqueue(payload: EventPayload): void {
+    this.add('event', payload);
+  }
+
+  public enqueueConversion(payload: ConversionPayload): void {
+    this.add('conversion', payload);
+  }
+
+  private add(type: 'event' | 'conversion', payload: EventPayload | ConversionPayload): void {
+    this.items.push({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      type,
+      payload,
+      attempts: 0,
+      next_attempt_at: 0
+    });
+
+    // Drop the oldest events once the cap is reached
+    if (this.items.length > this.maxQueueSize) {
+      const dropped = this.items.splice(0, this.items.length - this.maxQueueSize);
+      this.log('Event queue full, dropped events:', dropped.length);
+    }
+
+    this.persist();
+    this.scheduleFlush(this.flushDelay);
+  }
+
+  public clear(): void {
+    this.items = [];
+    this.persist();
+  }
+
+  public async flush(): Promise<void> {
+    this.flushTimer = null;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.log('Offline, postponing event flush');
+      return;
+    }
+
+    const batch = this.nextBatch();
+    if (batch.length === 0) {
+      this.scheduleRetry();
+      return;
+    }
+
+    batch.forEach(item => this.inFlight.add(item.id));
+    let httpStatus: number | undefined;
+
+    try {
+      const response = await fetch(`${this.endpoint}/v1/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ items: batch.map(toBatchItem) }),
+        keepalive: true
+      });
+      httpStatus = response.status;
+
+      if (response.ok) {
+        const results = await readResults(response);
+        const outcome = (index: number) => results?.[index]?.status || 'accepted';
+        const sent = batch.filter((_, index) => outcome(index) === 'accepted');
+        const rejected = batch.filter((_, index) => outcome(index) === 'rejected');
+        const failed = batch.filter((_, index) => outcome(index) === 'failed');
+
+        this.log('Event batch sent:', sent.length);
+        this.remove([...sent, ...rejected]);
+        this.report(sent, { status: 'sent', transport: 'fetch', httpStatus });
+        if (rejected.length > 0) {
+          // Invalid items, retrying will not help
+          this.log('Events rejected:', results!.filter(result => result.status === 'rejected'));
+          this.report(rejected, { status: 'rejected', transport: 'fetch', httpStatus });
+        }
+        if (failed.length > 0) {
+          this.markFailed(failed);
+          this.report(failed, { status: 'failed', transport: 'fetch', httpStatus });
+        }
+      } else if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+        // The server rejected the batch itself, retrying will not help
+        this.log('Event batch rejected:', {
+          status: response.status,
+          body: await response.text()
+        });
+        this.remove(batch);
+        this.report(batch, { status: 'rejected', transport: 'fetch', httpStatus });
+      } else {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      this.log('Failed to send event batch:', error);
+      this.markFailed(batch);
+      this.report(batch, { status: 'failed', transport: 'fetch', httpStatus });
+    } finally {
+      batch.forEach(item => this.inFlight.delete(item.id));
+      this.persist();
+    }
+
+    if (this.nextBatch().length > 0) {
+      this.scheduleFlush(0);
+    } else {
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Hands every pending event to sendBeacon. Used when the page is being
+   * hidden or unloaded, where a regular fetch may be cancelled.
+   */
+  public flushWithBeacon(): void {
+    if (!navigator.sendBeacon) return;
+
+    const pending = this.items.filter(item => !this.inFlight.has(item.id));
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      const batch = pending.slice(i, i + this.batchSize);
+      // text/plain is CORS-safelisted, so the beacon needs no preflight on
+      // the cross-origin functions domain. The server parses it as JSON
+      const blob = new Blob(
+        [JSON.stringify({ items: batch.map(toBatchItem) })],
+        { type: 'text/plain' }
+      );
+
+      if (!navigator.sendBeacon(`${this.endpoint}/v1/batch`, blob)) {
+        // The browser refused the beacon, keep the rest for the next page load
+        break;
+      }
+      this.remove(batch);
+      this.report(batch, { status: 'sent', transport: 'beacon' });
+    }
+
+    this.persist();
+  }
+
+  private setupListeners(): void {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushWithBeacon();
+      }
+    });
+
+    window.addEventListener('pagehide', () => {
+      this.flushWithBeacon();
+    });
+
+    window.addEventListener('online', () => {
+      this.scheduleFlush(0);
+    });
+  }
+
+  // Conversions are not events, so onResult only hears about the events
+  private report(items: QueuedEvent[], result: DeliveryResult): void {
+    const payloads = items
+      .filter(item => item.type !== 'conversion')
+      .map(item => item.payload as EventPayload);
+    if (payloads.length > 0) {
+      this.onResult(payloads, result);
+    }
+  }
+
+  private nextBatch(): QueuedEvent[] {
+    const now = Date.now();
+    return this.items
+      .filter(item => !this.inFlight.has(item.id) && item.next_attempt_at <= now)
+      .slice(0, this.batchSize);
+  }
+
+  private remove(batch: QueuedEvent[]): void {
+    const ids = new Set(batch.map(item => item.id));
+    this.items = this.items.filter(item => !ids.has(item.id));
+  }
+
+  private markFailed(batch: QueuedEvent[]): void {
+    const now = Date.now();
+    batch.forEach(item => {
+      item.attempts += 1;
+      item.next_attempt_at = now + Math.min(1000 * Math.pow(2, item.attempts), MAX_RETRY_DELAY);
+    });
+
+    const expired = this.items.filter(item => item.attempts >= MAX_ATTEMPTS);
+    if (expired.length > 0) {
+      this.log('Dropping events after max retries:', expired.length);
+      this.remove(expired);
+    }
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flush();
+    }, delay);
+  }
+
+  private scheduleRetry(): void {
+    const pending = this.items.filter(item => !this.inFlight.has(item.id));
+    if (pending.length === 0 || this.flushTimer) return;
+
+    const nextAttemptAt = Math.min(...pending.map(item => item.next_attempt_at));
+    this.scheduleFlush(Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+  private load(): QueuedEvent[] {
+    try {
+      const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+      if (stored) {
+        const items = JSON.parse(stored);
+        if (Array.isArray(items)) {
+          this.log('Restored queued events:', items.length);
+          return items;
+        }
+      }
+    } catch (e) {
+      this.log('Failed to restore event queue:', e);
+    }
+    return [];
+  }
+
+  private persist(): void {
+    try {
+      if (this.items.length > 0) {
+        localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(this.items));
+      } else {
+        localStorage.removeItem(QUEUE_STORAGE_KEY);
+      }
+    } catch (e) {
+      // Keep the queue in memory only if storage is unavailable or full
+      this.log('Failed to persist event queue:', e);
+    }
+  }
+}
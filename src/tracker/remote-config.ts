@@ -0,0 +1,48 @@
+import { RemoteTrackerConfig, sanitizeTrackerConfig } from '../../supabase/functions/_shared/tracker-config';
+import { ConversionTrigger } from './types';
+
+// Startup waits for the config, so a slow response must not hold back the
+// first page view for long
+const REMOTE_CONFIG_TIMEOUT_MS = 1500;
+
+export interface RemoteConfig {
+  config: RemoteTrackerConfig;
+  triggers: ConversionTrigger[];
+}
+
+/**
+ * Downloads the client's dashboard settings and active conversion
+ * triggers. Resolves to null when they cannot be loaded in time, so the
+ * tracker starts with the tag's configuration alone.
+ */
+export async function fetchRemoteConfig(
+  endpoint: string,
+  clientId: string,
+  log: (...args: unknown[]) => void = () => {}
+): Promise<RemoteConfig | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out')), REMOTE_CONFIG_TIMEOUT_MS);
+  });
+
+  try {
+    const response = await Promise.race([
+      fetch(`${endpoint}/config?client_id=${encodeURIComponent(clientId)}`),
+      timeout
+    ]);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await Promise.race([response.json(), timeout]);
+    return {
+      config: sanitizeTrackerConfig(data?.config),
+      triggers: Array.isArray(data?.triggers) ? data.triggers : []
+    };
+  } catch (error) {
+    log('Failed to load tracker config, starting with the tag configuration:', error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
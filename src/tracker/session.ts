@@ -0,0 +1,68 @@
+import { generateUuid } from './uuid';
+
+const SESSION_KEY = 'gtracker_session';
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+interface StoredSession {
+  id: string;
+  started_at: number;
+  last_activity_at: number;
+  campaign_key?: string;
+}
+
+export interface SessionStorage {
+  get: (key: string) => string | null;
+  set: (key: string, value: string) => void;
+}
+
+/**
+ * Groups hits into sessions. A session ends after `timeoutMinutes` without
+ * activity, or as soon as the visitor arrives through a different campaign.
+ */
+export class SessionManager {
+  private storage: SessionStorage;
+  private timeoutMs: number;
+  private session: StoredSession | null = null;
+
+  constructor(storage: SessionStorage, timeoutMinutes: number = DEFAULT_SESSION_TIMEOUT_MINUTES) {
+    this.storage = storage;
+    this.timeoutMs = timeoutMinutes * 60 * 1000;
+    this.session = this.load();
+  }
+
+  /**
+   * Returns the id of the active session, starting a new one when the
+   * previous session timed out or `campaignKey` differs from the campaign
+   * the session started with.
+   */
+  public touch(campaignKey?: string): string {
+    const now = Date.now();
+    const expired = !this.session || now - this.session.last_activity_at > this.timeoutMs;
+    const newCampaign = !!campaignKey && !!this.session && campaignKey !== this.session.campaign_key;
+
+    if (expired || newCampaign) {
+      this.session = {
+        id: generateUuid(),
+        started_at: now,
+        last_activity_at: now,
+        campaign_key: campaignKey
+      };
+    } else {
+      this.session!.last_activity_at = now;
+    }
+
+    this.storage.set(SESSION_KEY, JSON.stringify(this.session));
+    return this.session!.id;
+  }
+
+  private load(): StoredSession | null {
+    const stored = this.storage.get(SESSION_KEY);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  }
+}
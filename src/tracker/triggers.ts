@@ -0,0 +1,133 @@
+import type { TrackerFeatures } from './lazy';
+import { ConversionTrigger, EcommerceData } from './types';
+
+type TriggerCallback = (trigger: ConversionTrigger, data?: EcommerceData) => void;
+
+/**
+ * Downloads the client's active conversion triggers. Resolves to an empty
+ * list when they cannot be loaded, so tracking carries on without them.
+ */
+export async function fetchTriggers(
+  endpoint: string,
+  clientId: string,
+  log: (...args: unknown[]) => void = () => {}
+): Promise<ConversionTrigger[]> {
+  try {
+    const response = await fetch(`${endpoint}/triggers?client_id=${encodeURIComponent(clientId)}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data?.triggers) ? data.triggers : [];
+  } catch (error) {
+    log('Failed to load conversion triggers:', error);
+    return [];
+  }
+}
+
+/**
+ * Turns a URL pattern into a regular expression. `*` matches anything;
+ * patterns starting with a scheme match the full URL, others the path and
+ * query string.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesUrl(pattern: string, url: string): boolean {
+  const regExp = patternToRegExp(pattern);
+  if (/^https?:\/\//i.test(pattern)) return regExp.test(url);
+
+  const parsed = new URL(url);
+  return regExp.test(`${parsed.pathname}${parsed.search}`) || regExp.test(parsed.pathname);
+}
+
+function matchesSelector(target: EventTarget | null, selector: string): boolean {
+  try {
+    return !!(target as Element | null)?.closest?.(selector);
+  } catch {
+    // An invalid selector from the dashboard should not break the page
+    return false;
+  }
+}
+
+/**
+ * Evaluates conversion triggers in the browser and calls `onFire` for each
+ * match. URL triggers fire once per URL and are checked again on every
+ * `checkUrl()` call, which the tracker makes after SPA navigations.
+ * dataLayer triggers need the lazily loaded dataLayer bridge.
+ */
+export class TriggerEngine {
+  private triggers: ConversionTrigger[];
+  private onFire: TriggerCallback;
+  private dataLayer?: TrackerFeatures['datalayer'];
+  private log: (...args: unknown[]) => void;
+  private firedUrls = new Set<string>();
+
+  constructor(
+    triggers: ConversionTrigger[],
+    onFire: TriggerCallback,
+    dataLayer?: TrackerFeatures['datalayer'],
+    log: (...args: unknown[]) => void = () => {}
+  ) {
+    this.triggers = triggers;
+    this.onFire = onFire;
+    this.dataLayer = dataLayer;
+    this.log = log;
+    this.setupListeners();
+    this.checkUrl(window.location.href);
+  }
+
+  public checkUrl(url: string): void {
+    this.byType('url_match').forEach(trigger => {
+      const key = `${trigger.id}|${url}`;
+      if (this.firedUrls.has(key) || !matchesUrl(trigger.match_value, url)) return;
+
+      this.firedUrls.add(key);
+      this.onFire(trigger);
+    });
+  }
+
+  private byType(type: ConversionTrigger['trigger_type']): ConversionTrigger[] {
+    return this.triggers.filter(trigger => trigger.trigger_type === type);
+  }
+
+  private setupListeners(): void {
+    const clickTriggers = this.byType('click');
+    if (clickTriggers.length > 0) {
+      document.addEventListener('click', event => {
+        clickTriggers
+          .filter(trigger => matchesSelector(event.target, trigger.match_value))
+          .forEach(trigger => this.onFire(trigger));
+      }, true);
+    }
+
+    const formTriggers = this.byType('form_submit');
+    if (formTriggers.length > 0) {
+      document.addEventListener('submit', event => {
+        const form = event.target as HTMLFormElement;
+        formTriggers
+          .filter(trigger => form?.id === trigger.match_value.replace(/^#/, ''))
+          .forEach(trigger => this.onFire(trigger));
+      }, true);
+    }
+
+    const dataLayerTriggers = this.byType('datalayer_event');
+    const dataLayer = this.dataLayer;
+    if (dataLayerTriggers.length > 0 && dataLayer) {
+      dataLayer.onDataLayerPush(entry => {
+        const event = dataLayer.readDataLayerEvent(entry);
+        if (!event) return;
+
+        dataLayerTriggers
+          .filter(trigger => trigger.match_value === event.name)
+          .forEach(trigger => this.onFire(trigger, dataLayer.readEcommerceData(event.data)));
+      }, this.log);
+    }
+  }
+}
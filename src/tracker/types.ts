@@ -0,0 +1,141 @@
+export interface ClickIds {
+  fbclid?: string;
+  gclid?: string;
+  ttclid?: string;
+  msclkid?: string;
+  [key: string]: string | undefined;
+}
+
+// A click id as kept in storage; times are epoch milliseconds
+export interface StoredClickId {
+  value: string;
+  first_seen_at: number;
+  expires_at: number;
+}
+
+export interface UTMParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  content?: string;
+  term?: string;
+}
+
+export type ConsentCategory = 'analytics' | 'ads' | 'identity';
+
+export type ConsentState = 'unknown' | 'granted' | 'denied';
+
+export type ConsentSnapshot = Record<ConsentCategory, ConsentState>;
+
+// Default state per region code, with `default` applying everywhere else
+export type ConsentDefaults = Record<string, Partial<Record<ConsentCategory, ConsentState>>>;
+
+export type EventPropertyValue = string | number | boolean | null;
+
+export type EventProperties = Record<string, EventPropertyValue>;
+
+export interface EcommerceItem {
+  item_id?: string;
+  item_name?: string;
+  item_brand?: string;
+  item_category?: string;
+  item_variant?: string;
+  price?: number;
+  quantity?: number;
+}
+
+export interface EcommerceData {
+  value?: number;
+  currency?: string;
+  transaction_id?: string;
+  items?: EcommerceItem[];
+}
+
+// What a GA4 ecommerce event becomes. `conversion` records a conversion of
+// `conversionType` (the GA4 event name when omitted)
+export interface EcommerceEventMapping {
+  eventType: string;
+  conversionType?: string;
+}
+
+export type ConversionTriggerType = 'url_match' | 'click' | 'form_submit' | 'datalayer_event';
+
+export interface ConversionTrigger {
+  id: string;
+  trigger_type: ConversionTriggerType;
+  match_value: string;
+  conversion_type: string;
+  value?: number | null;
+  currency?: string | null;
+}
+
+export interface EventPayload {
+  // Idempotency key, so a resent event is stored once
+  event_id?: string;
+  client_id: string;
+  visitor_id: string;
+  session_id?: string;
+  event_type: string;
+  email_hash?: string;
+  utm_params?: UTMParams;
+  click_ids?: ClickIds;
+  timestamp: string;
+  page_url: string;
+  referrer?: string;
+  engaged_time_ms?: number;
+  consent?: ConsentSnapshot;
+  properties?: EventProperties;
+  user_id?: string;
+  phone_hash?: string;
+  traits?: EventProperties;
+  ecommerce?: EcommerceData;
+}
+
+// Queued alongside a `conversion` event to record the conversion itself
+export interface ConversionPayload {
+  client_id: string;
+  visitor_id: string;
+  conversion_type: string;
+  value?: number;
+  currency?: string;
+  transaction_id?: string;
+  // The transaction id, or a key generated for this one firing
+  order_id?: string;
+  user_id?: string;
+  timestamp: string;
+}
+
+/**
+ * Hooks run for every event the tracker sends. `beforeSend` runs before the
+ * event is queued and may modify the payload in place, return a replacement,
+ * or return null or false to drop the event. `afterSend` runs once the
+ * server has accepted the event.
+ */
+export interface TrackerPlugin {
+  name: string;
+  beforeSend?: (payload: EventPayload) => EventPayload | null | false | void;
+  afterSend?: (payload: EventPayload) => void;
+}
+
+export interface TrackerConfig {
+  clientId?: string;
+  endpoint?: string;
+  cookieDomain?: string;
+  debug?: boolean;
+  autoPageview?: boolean;
+  spaNavigation?: boolean;
+  sessionTimeout?: number;
+  consentDefaults?: ConsentDefaults;
+  region?: string;
+  cmpBridge?: boolean;
+  firstPartyMode?: boolean;
+  linkerDomains?: string[];
+  ecommerce?: boolean;
+  ecommerceMapping?: Record<string, EcommerceEventMapping | false>;
+  conversionTriggers?: boolean;
+  attributionTtlDays?: number;
+  formCapture?: boolean;
+  assetsUrl?: string;
+  sampleRate?: number;
+  remoteConfig?: boolean;
+}
@@ -0,0 +1,3 @@
+// Version of the tracker bundles. `npm run build:tracker` publishes them to
+// serve-tracker under this version, so bump it for every release
+export const TRACKER_VERSION = '1.0.0';
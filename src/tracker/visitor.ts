@@ -0,0 +1,72 @@
+/**
+ * First-party collection mode. The collection endpoint (the client's own
+ * proxy, so cookies are first-party) keeps the visitor id in an HttpOnly
+ * cookie, which Safari ITP does not cap the way it caps cookies written
+ * from JavaScript.
+ */
+
+interface VisitorSyncResponse {
+  visitor_id?: string;
+}
+
+/**
+ * Reconciles the locally stored visitor id with the server cookie. The
+ * server keeps the id from its cookie when it has one, merging the local id
+ * into it if nothing was stored under it yet, and otherwise adopts the
+ * local id. Resolves to the id to use, or
+ * null when the endpoint could not be reached.
+ */
+export async function syncVisitorId(
+  endpoint: string,
+  clientId: string,
+  visitorId: string,
+  cookieDomain?: string,
+  log: (...args: unknown[]) => void = () => {}
+): Promise<string | null> {
+  try {
+    // The client id is also in the query so the preflight can be checked
+    const response = await fetch(`${endpoint}/visitor?client_id=${encodeURIComponent(clientId)}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        client_id: clientId,
+        visitor_id: visitorId,
+        cookie_domain: cookieDomain
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data: VisitorSyncResponse = await response.json();
+    return typeof data.visitor_id === 'string' && data.visitor_id ? data.visitor_id : null;
+  } catch (error) {
+    log('Failed to sync visitor ID:', error);
+    return null;
+  }
+}
+
+/**
+ * Asks the endpoint to expire the HttpOnly visitor cookie, which scripts
+ * cannot remove themselves.
+ */
+export function clearVisitorCookie(
+  endpoint: string,
+  clientId: string,
+  cookieDomain?: string,
+  log: (...args: unknown[]) => void = () => {}
+): void {
+  const query = `?client_id=${encodeURIComponent(clientId)}`
+    + (cookieDomain ? `&cookie_domain=${encodeURIComponent(cookieDomain)}` : '');
+  fetch(`${endpoint}/visitor${query}`, {
+    method: 'DELETE',
+    credentials: 'include',
+    keepalive: true
+  }).catch(error => {
+    log('Failed to clear visitor cookie:', error);
+  });
+}
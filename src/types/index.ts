@@ -2,13 +2,17 @@
 export interface Visitor {
   visitor_id: string;
   email_hash?: string;
+  user_id?: string;
+  phone_hash?: string;
   created_at: Date;
   last_seen_at: Date;
 }
 
 export interface Event {
   id: string;
+  event_id?: string;
   visitor_id: string;
+  session_id?: string;
   event_type: string;
   utm_source?: string;
   utm_medium?: string;
@@ -19,13 +23,206 @@ export interface Event {
   gclid?: string;
   ttclid?: string;
   msclkid?: string;
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  channel?: Channel;
+  channel_group?: string;
   page_url: string;
   referrer?: string;
   email_hash?: string;
+  engaged_time_ms?: number;
+  consent_state?: ConsentSnapshot;
+  properties?: Record<string, string | number | boolean | null>;
+  user_id?: string;
+  phone_hash?: string;
+  traits?: Record<string, string | number | boolean | null>;
+  ecommerce?: EcommerceData;
   timestamp: Date;
   client_id: string;
 }
 
+export type ConsentState = 'unknown' | 'granted' | 'denied';
+
+export interface ConsentSnapshot {
+  analytics: ConsentState;
+  ads: ConsentState;
+  identity: ConsentState;
+}
+
+export interface Session {
+  session_id: string;
+  visitor_id: string;
+  client_id: string;
+  started_at: Date;
+  ended_at: Date;
+  landing_page?: string;
+  entry_source?: string;
+  entry_medium?: string;
+  entry_campaign?: string;
+  entry_channel?: Channel;
+  entry_referrer?: string;
+  page_views: number;
+  engaged_time_ms: number;
+  has_conversion: boolean;
+  duration_seconds: number;
+  is_bounce: boolean;
+}
+
+export type EventPropertyType = 'string' | 'number' | 'boolean';
+
+export interface EventDefinition {
+  id: string;
+  client_id?: string;
+  name: string;
+  description?: string;
+  property_types: Record<string, EventPropertyType>;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type ConversionTriggerType = 'url_match' | 'click' | 'form_submit' | 'datalayer_event';
+
+export interface ConversionTrigger {
+  id: string;
+  client_id?: string;
+  name: string;
+  trigger_type: ConversionTriggerType;
+  match_value: string;
+  conversion_type: string;
+  value?: number | null;
+  currency?: string | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type Channel =
+  | 'paid_search'
+  | 'paid_social'
+  | 'display'
+  | 'affiliate'
+  | 'organic_search'
+  | 'organic_social'
+  | 'email'
+  | 'ai_assistant'
+  | 'referral'
+  | 'internal'
+  | 'direct'
+  | 'other';
+
+export interface ChannelRule {
+  id: string;
+  client_id?: string;
+  domain: string;
+  source: string;
+  medium: string;
+  channel: Channel;
+  priority: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type ChannelGroupField = 'source' | 'medium' | 'campaign' | 'channel' | 'referrer';
+
+export type ChannelGroupOperator = 'equals' | 'in' | 'contains' | 'matches';
+
+export interface ChannelGroupCondition {
+  field: ChannelGroupField;
+  operator: ChannelGroupOperator;
+  // A list for the `in` operator, a single value otherwise
+  value: string | string[];
+}
+
+export interface ChannelGroup {
+  id: string;
+  client_id?: string;
+  name: string;
+  color: string;
+  conditions: ChannelGroupCondition[];
+  priority: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type UtmField = 'source' | 'medium' | 'campaign';
+
+export interface UtmMapping {
+  id: string;
+  client_id?: string;
+  field: UtmField;
+  match_type: 'alias' | 'regex';
+  pattern: string;
+  replacement: string;
+  priority: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface UnmappedUtmValue {
+  field: 'source' | 'medium';
+  value: string;
+  event_count: number;
+  raw_values: string[];
+}
+
+// Published tracker versions, as listed by serve-tracker's /versions route.
+// `files` maps each bundle to its SRI hash
+export interface TrackerManifest {
+  latest: string | null;
+  versions: Record<string, {
+    released_at: string;
+    files: Record<string, string>;
+  }>;
+}
+
+// Per-client tracker settings stored in clients.tracker_config. The tracker
+// fetches them from event-capture's /config route at startup
+export interface TrackerSettings {
+  consentDefaults?: Record<string, Partial<Record<'analytics' | 'ads' | 'identity', 'unknown' | 'granted' | 'denied'>>>;
+  cookieDomain?: string;
+  linkerDomains?: string[];
+  sampleRate?: number;
+  ecommerceMapping?: Record<string, { eventType: string; conversionType?: string } | false>;
+}
+
+// Scopes of a server-side API key: `ingest` sends events and conversions,
+// `read` reads attribution results, `sync` pushes them to the webhook
+export type ApiKeyScope = 'ingest' | 'read' | 'sync';
+
+// Row of api_keys. Only a hash of the key is stored
+export interface ApiKey {
+  id: string;
+  client_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface EcommerceItem {
+  item_id?: string;
+  item_name?: string;
+  item_brand?: string;
+  item_category?: string;
+  item_variant?: string;
+  price?: number;
+  quantity?: number;
+}
+
+export interface EcommerceData {
+  value?: number;
+  currency?: string;
+  transaction_id?: string;
+  items?: EcommerceItem[];
+}
+
 export interface IdentityMap {
   email_hash: string;
   visitor_ids: string[];
@@ -39,6 +236,8 @@ export interface Conversion {
   conversion_type: string;
   value?: number;
   currency?: string;
+  transaction_id?: string;
+  order_id?: string;
   timestamp: Date;
   client_id: string;
   ad_id?: string;
@@ -54,7 +253,10 @@ export interface AttributionResult {
   source: string;
   medium?: string;
   campaign?: string;
+  channel?: Channel;
+  channel_group?: string;
   ad_id?: string;
+  ad_platform?: string;
   timestamp: Date;
   client_id: string;
 }
@@ -62,6 +264,7 @@ export interface AttributionResult {
 // API Types
 export interface EventData {
   visitor_id: string;
+  session_id?: string;
   event_type: string;
   email_hash?: string;
   utm_params?: UTMParams;
@@ -69,6 +272,7 @@ export interface EventData {
   timestamp: number;
   page_url: string;
   referrer?: string;
+  engaged_time_ms?: number;
   client_id: string;
 }
 
@@ -1,7 +1 @@
 /// <reference types="vite/client" />
-
-interface Window {
-  gTracker?: {
-    trackConversion: (type: string, value?: number, currency?: string) => void;
-  };
-}
\ No newline at end of file
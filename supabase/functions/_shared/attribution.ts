@@ -0,0 +1,460 @@
+/**
+ * Multi-touch attribution of stored conversions, shared by
+ * `capture-conversion` and the ingestion API's batch route. The caller
+ * passes its service-role Supabase client.
+ */
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.3";
+import { resolveAdClick } from "./click-ids.ts";
+
+// Events that are not marketing touches: engagement heartbeats, identify
+// calls and the conversions themselves. Counting them would let credit grow
+// with time on page instead of with visits
+const NON_TOUCHPOINT_EVENT_TYPES = ["user_engagement", "identify", "conversion", "purchase"];
+
+interface AttributionModelSettings {
+  lookback_window_days: number;
+  decay_base?: number;
+  first_touch_weight?: number;
+  last_touch_weight?: number;
+  middle_touch_weight?: number;
+  exclude_bounced_sessions?: boolean;
+  min_session_duration?: number;
+  channel_weights?: Record<string, number>;
+}
+
+interface EventTouchpoint {
+  id: string;
+  visitor_id: string;
+  session_id?: string;
+  timestamp: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  channel?: string;
+  click_ids?: Record<string, string | undefined>;
+}
+
+interface Touchpoint {
+  id: string;
+  timestamp: string;
+  source: string;
+  medium?: string;
+  campaign?: string;
+  channel?: string;
+  channel_group?: string;
+  ad_id?: string;
+  ad_platform?: string;
+}
+
+// A row of `conversions`, as needed to attribute it
+export interface StoredConversion {
+  id: string;
+  client_id: string;
+  visitor_id: string;
+  value?: number | null;
+  email_hash?: string | null;
+  user_id?: string | null;
+  timestamp: string;
+}
+
+export interface AttributionSummary {
+  model: string;
+  attribution: "direct" | "touchpoints";
+  attribution_count: number;
+}
+
+async function calculateAttribution(
+  touchpoints: Touchpoint[],
+  modelType: string,
+  settings: AttributionModelSettings
+): Promise<{ [key: string]: number }> {
+  const weights: { [key: string]: number } = {};
+
+  if (touchpoints.length === 0) {
+    return weights;
+  }
+
+  switch (modelType) {
+    case 'first_touch':
+      weights[touchpoints[0].id] = 1;
+      break;
+
+    case 'last_touch':
+      weights[touchpoints[touchpoints.length - 1].id] = 1;
+      break;
+
+    case 'linear': {
+      const weight = 1 / touchpoints.length;
+      touchpoints.forEach(tp => {
+        weights[tp.id] = weight;
+      });
+      break;
+    }
+
+    case 'time_decay': {
+      const decayBase = settings.decay_base || 0.7;
+      const lastTs = new Date(touchpoints[touchpoints.length - 1].timestamp).getTime();
+      let totalWeight = 0;
+
+      touchpoints.forEach(tp => {
+        const daysBefore = (lastTs - new Date(tp.timestamp).getTime()) / (1000 * 60 * 60 * 24);
+        const weight = Math.pow(decayBase, daysBefore);
+        totalWeight += weight;
+        weights[tp.id] = weight; // Store unnormalized weight
+      });
+
+      // Normalize weights
+      Object.keys(weights).forEach(id => {
+        weights[id] = weights[id] / totalWeight;
+      });
+      break;
+    }
+
+    default:
+      // Default to last-touch attribution
+      weights[touchpoints[touchpoints.length - 1].id] = 1;
+      break;
+  }
+
+  return weights;
+}
+
+/**
+ * Names the channel group of each touchpoint with the client's grouping
+ * rules (see resolve_channel_group). Touchpoints are left ungrouped when
+ * the lookup fails.
+ */
+async function assignChannelGroups(
+  supabaseClient: SupabaseClient,
+  clientId: string,
+  touchpoints: Touchpoint[]
+): Promise<Touchpoint[]> {
+  const { data: groups, error } = await supabaseClient.rpc("resolve_channel_groups", {
+    p_client_id: clientId,
+    p_values: touchpoints.map(tp => ({
+      source: tp.source,
+      medium: tp.medium,
+      campaign: tp.campaign,
+      channel: tp.channel
+    }))
+  });
+
+  if (error) {
+    console.error("Error resolving channel groups:", error);
+    return touchpoints;
+  }
+  return touchpoints.map((tp, index) => ({ ...tp, channel_group: groups?.[index] }));
+}
+
+const channelWeight = (tp: Touchpoint, channelWeights: Record<string, number>) =>
+  channelWeights[tp.channel_group || ""] ?? 1;
+
+/**
+ * Drops touchpoints whose channel group has a weight of 0, unless that
+ * would leave nothing to attribute.
+ */
+function filterChannelTouchpoints(
+  touchpoints: Touchpoint[],
+  channelWeights: Record<string, number> = {}
+): Touchpoint[] {
+  const credited = touchpoints.filter(tp => channelWeight(tp, channelWeights) > 0);
+  return credited.length > 0 ? credited : touchpoints;
+}
+
+/**
+ * Scales each touchpoint's model weight by its channel group's weight
+ * (1 when unset) and normalizes the result to sum to 1 again.
+ */
+function applyChannelWeights(
+  weights: { [key: string]: number },
+  touchpoints: Touchpoint[],
+  channelWeights: Record<string, number> = {}
+): { [key: string]: number } {
+  const scaled: { [key: string]: number } = {};
+  let totalWeight = 0;
+
+  touchpoints.forEach(tp => {
+    if (!weights[tp.id]) return;
+    scaled[tp.id] = weights[tp.id] * channelWeight(tp, channelWeights);
+    totalWeight += scaled[tp.id];
+  });
+
+  if (totalWeight === 0) return weights;
+  Object.keys(scaled).forEach(id => {
+    scaled[id] = scaled[id] / totalWeight;
+  });
+  return scaled;
+}
+
+/**
+ * Drops touchpoints from sessions the model settings exclude: bounced
+ * sessions and sessions shorter than `min_session_duration` seconds.
+ * Touchpoints recorded without a session are kept.
+ */
+async function filterSessionTouchpoints(
+  supabaseClient: SupabaseClient,
+  touchpoints: EventTouchpoint[],
+  settings: AttributionModelSettings
+): Promise<EventTouchpoint[]> {
+  if (!settings.exclude_bounced_sessions && !settings.min_session_duration) {
+    return touchpoints;
+  }
+
+  const sessionIds = [...new Set(touchpoints.map(tp => tp.session_id).filter(Boolean))];
+  if (sessionIds.length === 0) {
+    return touchpoints;
+  }
+
+  const { data: sessions, error } = await supabaseClient
+    .from("sessions")
+    .select("session_id, is_bounce, duration_seconds")
+    .in("session_id", sessionIds);
+
+  if (error) {
+    console.error("Error loading sessions, skipping session filters:", error);
+    return touchpoints;
+  }
+
+  const excluded = new Set(
+    (sessions || [])
+      .filter(session =>
+        (settings.exclude_bounced_sessions && session.is_bounce) ||
+        (settings.min_session_duration && session.duration_seconds < settings.min_session_duration)
+      )
+      .map(session => session.session_id)
+  );
+
+  return touchpoints.filter(tp => !tp.session_id || !excluded.has(tp.session_id));
+}
+
+// Internal hits are classified without a source, see _shared/channels.ts
+const hasSource = (tp: EventTouchpoint) => !!(tp.utm_source || tp.source);
+
+/**
+ * The tracker only puts the campaign on a session's landing hit, so later
+ * hits take theirs from the session: the landing hit when it is in range,
+ * otherwise the entry campaign recorded on the session.
+ */
+async function applySessionCampaigns(
+  supabaseClient: SupabaseClient,
+  touchpoints: EventTouchpoint[]
+): Promise<EventTouchpoint[]> {
+  const landingHits = new Map<string, EventTouchpoint>();
+  touchpoints.forEach(tp => {
+    if (tp.session_id && (hasSource(tp) || tp.click_ids) && !landingHits.has(tp.session_id)) {
+      landingHits.set(tp.session_id, tp);
+    }
+  });
+
+  const missingSessionIds = [...new Set(
+    touchpoints
+      .filter(tp => tp.session_id && !hasSource(tp) && !landingHits.has(tp.session_id))
+      .map(tp => tp.session_id as string)
+  )];
+
+  const sessionCampaigns = new Map<string, Partial<EventTouchpoint>>();
+  if (missingSessionIds.length > 0) {
+    const { data: sessions, error } = await supabaseClient
+      .from("sessions")
+      .select("session_id, entry_source, entry_medium, entry_campaign, entry_channel")
+      .in("session_id", missingSessionIds);
+
+    if (error) {
+      console.error("Error loading session campaigns:", error);
+    }
+    (sessions || []).forEach(session => {
+      if (session.entry_source) {
+        sessionCampaigns.set(session.session_id, {
+          source: session.entry_source,
+          medium: session.entry_medium,
+          campaign: session.entry_campaign,
+          channel: session.entry_channel
+        });
+      }
+    });
+  }
+
+  return touchpoints.map(tp => {
+    if (!tp.session_id || hasSource(tp)) return tp;
+
+    const landingHit = landingHits.get(tp.session_id);
+    if (landingHit) {
+      return {
+        ...tp,
+        utm_source: landingHit.utm_source,
+        utm_medium: landingHit.utm_medium,
+        utm_campaign: landingHit.utm_campaign,
+        source: landingHit.source,
+        medium: landingHit.medium,
+        campaign: landingHit.campaign,
+        channel: landingHit.channel,
+        click_ids: tp.click_ids || landingHit.click_ids
+      };
+    }
+    return { ...tp, ...sessionCampaigns.get(tp.session_id) };
+  });
+}
+
+/**
+ * Credits a stored conversion to the visitor's touchpoints within the
+ * lookback window of the client's active model, across every device linked
+ * by email hash or user id, and stores the results in
+ * `attribution_results`. Without touchpoints the conversion is credited to
+ * direct. Throws when the results cannot be stored.
+ */
+export async function attributeConversion(
+  supabaseClient: SupabaseClient,
+  conversion: StoredConversion
+): Promise<AttributionSummary> {
+  // Get attribution model settings
+  const { data: modelSettings } = await supabaseClient
+    .from("attribution_models")
+    .select("name, settings")
+    .eq("client_id", conversion.client_id)
+    .eq("is_active", true)
+    .single();
+
+  const modelName = modelSettings?.name || "last_touch";
+  const lookbackDays = modelSettings?.settings?.lookback_window_days || 30;
+  const lookbackDate = new Date();
+  lookbackDate.setDate(lookbackDate.getDate() - lookbackDays);
+
+  // Get all visitor IDs for this user
+  const visitorIds = [conversion.visitor_id];
+  if (conversion.email_hash) {
+    const { data: identityMap } = await supabaseClient
+      .from("identity_map")
+      .select("visitor_ids")
+      .eq("email_hash", conversion.email_hash)
+      .eq("client_id", conversion.client_id)
+      .single();
+
+    if (identityMap?.visitor_ids) {
+      visitorIds.push(...identityMap.visitor_ids);
+    }
+  }
+
+  // Stitch devices through the client's own user id, either sent with
+  // the conversion or recorded on the visitor by an earlier identify()
+  let userId = conversion.user_id;
+  if (!userId) {
+    const { data: visitor } = await supabaseClient
+      .from("visitors")
+      .select("user_id")
+      .eq("visitor_id", conversion.visitor_id)
+      .maybeSingle();
+    userId = visitor?.user_id || undefined;
+  }
+
+  if (userId) {
+    const { data: userIdentity } = await supabaseClient
+      .from("user_identity_map")
+      .select("visitor_ids")
+      .eq("client_id", conversion.client_id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (userIdentity?.visitor_ids) {
+      visitorIds.push(...userIdentity.visitor_ids);
+    }
+  }
+
+  // Get all touchpoints
+  const settings: AttributionModelSettings = modelSettings?.settings || { lookback_window_days: 30 };
+  const { data: allTouchpoints } = await supabaseClient
+    .from("events")
+    .select("id, visitor_id, session_id, timestamp, utm_source, utm_medium, utm_campaign, source, medium, campaign, channel, click_ids")
+    .in("visitor_id", visitorIds)
+    .eq("client_id", conversion.client_id)
+    .not("event_type", "in", `(${NON_TOUCHPOINT_EVENT_TYPES.join(",")})`)
+    .gte("timestamp", lookbackDate.toISOString())
+    .lt("timestamp", conversion.timestamp)
+    .order("timestamp", { ascending: true });
+
+  const touchpoints = await applySessionCampaigns(
+    supabaseClient,
+    await filterSessionTouchpoints(supabaseClient, allTouchpoints || [], settings)
+  );
+
+  if (!touchpoints.length) {
+    // No touchpoints found, attribute to direct
+    const { data: directGroup } = await supabaseClient.rpc("resolve_channel_group", {
+      p_client_id: conversion.client_id,
+      p_values: { source: "direct", channel: "direct" }
+    });
+
+    await supabaseClient
+      .from("attribution_results")
+      .insert({
+        client_id: conversion.client_id,
+        conversion_id: conversion.id,
+        visitor_id: conversion.visitor_id,
+        attribution_model: modelName,
+        attribution_weight: 1,
+        source: "direct",
+        channel: "direct",
+        channel_group: directGroup,
+        timestamp: conversion.timestamp,
+        credit: conversion.value || 0 // Assign full credit to direct
+      });
+
+    return { model: modelName, attribution: "direct", attribution_count: 1 };
+  }
+
+  // Calculate attribution weights. Events stored before classification and
+  // UTM normalization only have the raw utm_* values
+  const formattedTouchpoints = await assignChannelGroups(supabaseClient, conversion.client_id, touchpoints.map(tp => {
+    const source = tp.source || tp.utm_source;
+    const adClick = resolveAdClick(tp.click_ids, source);
+    return {
+      id: tp.id,
+      timestamp: tp.timestamp,
+      source: source || "direct",
+      medium: tp.medium || tp.utm_medium,
+      campaign: tp.campaign || tp.utm_campaign,
+      channel: source ? tp.channel : "direct",
+      ad_id: adClick?.value,
+      ad_platform: adClick?.platform
+    };
+  }));
+  const formattedById = new Map(formattedTouchpoints.map(tp => [tp.id, tp]));
+
+  const creditedTouchpoints = filterChannelTouchpoints(formattedTouchpoints, settings.channel_weights);
+  const weights = applyChannelWeights(
+    await calculateAttribution(creditedTouchpoints, modelName, settings),
+    creditedTouchpoints,
+    settings.channel_weights
+  );
+
+  // Store attribution results
+  const attributionResults = touchpoints.map(tp => ({
+    client_id: conversion.client_id,
+    conversion_id: conversion.id,
+    visitor_id: tp.visitor_id,
+    attributed_event_id: tp.id,
+    attribution_model: modelName,
+    attribution_weight: weights[tp.id] || 0,
+    source: formattedById.get(tp.id)?.source,
+    medium: formattedById.get(tp.id)?.medium,
+    campaign: formattedById.get(tp.id)?.campaign,
+    channel: formattedById.get(tp.id)?.channel,
+    channel_group: formattedById.get(tp.id)?.channel_group,
+    ad_id: formattedById.get(tp.id)?.ad_id,
+    ad_platform: formattedById.get(tp.id)?.ad_platform,
+    timestamp: conversion.timestamp,
+    credit: (weights[tp.id] || 0) * (conversion.value || 0) // Calculate proportional credit
+  }));
+
+  const { error: attributionError } = await supabaseClient
+    .from("attribution_results")
+    .insert(attributionResults);
+
+  if (attributionError) {
+    throw attributionError;
+  }
+
+  return { model: modelName, attribution: "touchpoints", attribution_count: attributionResults.length };
+}
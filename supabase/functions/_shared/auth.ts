@@ -0,0 +1,90 @@
+/**
+ * Who may send data for a client. Servers authenticate with one of the
+ * client's API keys in `x-api-key`; keys are stored as SHA-256 hashes in
+ * `api_keys` and carry scopes. Browsers cannot keep a key secret, so the
+ * tracker's requests are checked against the client's registered domain
+ * instead.
+ */
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.3";
+
+// `ingest`: send events and conversions. `read`: read attribution results.
+// `sync`: push attribution results to the client's webhook
+export type ApiKeyScope = "ingest" | "read" | "sync";
+
+export type ApiKeyCheck =
+  | { success: true; clientId: string; keyId: string }
+  | { success: false; status: 401 | 403; error: string };
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checks the request's `x-api-key` against the client's active keys and
+ * the scope the route needs. Throws when the keys cannot be read.
+ */
+export async function authenticateApiKey(
+  supabaseClient: SupabaseClient,
+  req: Request,
+  scope: ApiKeyScope
+): Promise<ApiKeyCheck> {
+  const apiKey = req.headers.get("x-api-key");
+  if (!apiKey) {
+    return { success: false, status: 401, error: "API key is required" };
+  }
+
+  const { data, error } = await supabaseClient
+    .from("api_keys")
+    .select("id, client_id, scopes")
+    .eq("key_hash", await hashApiKey(apiKey))
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return { success: false, status: 401, error: "Invalid API key" };
+  }
+  if (!(data.scopes as string[]).includes(scope)) {
+    return { success: false, status: 403, error: `API key does not have the ${scope} scope` };
+  }
+
+  // Shown on the dashboard to spot unused keys; not worth failing the request over
+  supabaseClient
+    .from("api_keys")
+    .update({ last_used_at: new Date().toISOString() })
+    .eq("id", data.id)
+    .then(({ error: updateError }) => {
+      if (updateError) console.error("Error recording API key use:", updateError);
+    });
+
+  return { success: true, clientId: data.client_id, keyId: data.id };
+}
+
+/**
+ * Whether a browser request's Origin belongs to the client's registered
+ * domain or one of its subdomains. `domain` may be stored with a scheme
+ * or a leading `www.`.
+ */
+export function isAllowedOrigin(origin: string | null, domain: string | null): boolean {
+  if (!origin || !domain) return false;
+
+  let host: string;
+  try {
+    host = new URL(origin).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const registered = domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/:].*$/, "")
+    .replace(/^www\./, "");
+  return registered !== "" && (host === registered || host.endsWith(`.${registered}`));
+}
@@ -0,0 +1,226 @@
+/**
+ * Server-side traffic classifier. Derives source, medium and a normalized
+ * channel for each event from its UTM parameters, click ids and referrer,
+ * so visits without UTM tags are no longer all counted as direct.
+ */
+import { PLATFORM_SOURCES, resolveAdClick } from './click-ids.ts';
+
+export const CHANNELS = [
+  'paid_search',
+  'paid_social',
+  'display',
+  'affiliate',
+  'organic_search',
+  'organic_social',
+  'email',
+  'ai_assistant',
+  'referral',
+  'internal',
+  'direct',
+  'other'
+] as const;
+
+export type Channel = typeof CHANNELS[number];
+
+export interface ChannelRule {
+  // Referrer hostname, matching subdomains too. A trailing `.*` matches any
+  // TLD, e.g. `google.*` covers google.com and google.co.uk
+  domain: string;
+  source: string;
+  medium: string;
+  channel: Channel;
+}
+
+export interface TrafficInput {
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  click_ids?: Record<string, unknown> | null;
+  referrer?: string | null;
+  page_url?: string | null;
+}
+
+export interface TrafficSource {
+  source: string | null;
+  medium: string | null;
+  channel: Channel;
+}
+
+const search = (domain: string, source: string): ChannelRule =>
+  ({ domain, source, medium: 'organic', channel: 'organic_search' });
+const social = (domain: string, source: string): ChannelRule =>
+  ({ domain, source, medium: 'social', channel: 'organic_social' });
+const webmail = (domain: string, source: string): ChannelRule =>
+  ({ domain, source, medium: 'email', channel: 'email' });
+const assistant = (domain: string, source: string): ChannelRule =>
+  ({ domain, source, medium: 'ai', channel: 'ai_assistant' });
+
+// Checked in order, so subdomains with their own meaning (mail.google.com,
+// gemini.google.com) come before the search engine they live under
+export const DEFAULT_CHANNEL_RULES: ChannelRule[] = [
+  assistant('chatgpt.com', 'chatgpt'),
+  assistant('chat.openai.com', 'chatgpt'),
+  assistant('perplexity.ai', 'perplexity'),
+  assistant('claude.ai', 'claude'),
+  assistant('gemini.google.com', 'gemini'),
+  assistant('bard.google.com', 'gemini'),
+  assistant('copilot.microsoft.com', 'copilot'),
+  assistant('chat.deepseek.com', 'deepseek'),
+  assistant('chat.mistral.ai', 'mistral'),
+  assistant('poe.com', 'poe'),
+  assistant('you.com', 'you'),
+
+  webmail('mail.google.com', 'gmail'),
+  webmail('outlook.live.com', 'outlook'),
+  webmail('outlook.office.com', 'outlook'),
+  webmail('outlook.office365.com', 'outlook'),
+  webmail('mail.yahoo.com', 'yahoo_mail'),
+  webmail('mail.proton.me', 'proton_mail'),
+  webmail('mail.aol.com', 'aol_mail'),
+
+  search('google.*', 'google'),
+  search('bing.com', 'bing'),
+  search('duckduckgo.com', 'duckduckgo'),
+  search('yahoo.*', 'yahoo'),
+  search('yandex.*', 'yandex'),
+  search('baidu.com', 'baidu'),
+  search('ecosia.org', 'ecosia'),
+  search('search.brave.com', 'brave'),
+  search('startpage.com', 'startpage'),
+  search('qwant.com', 'qwant'),
+  search('naver.com', 'naver'),
+
+  social('facebook.com', 'facebook'),
+  social('instagram.com', 'instagram'),
+  social('t.co', 'x'),
+  social('twitter.com', 'x'),
+  social('x.com', 'x'),
+  social('linkedin.com', 'linkedin'),
+  social('lnkd.in', 'linkedin'),
+  social('reddit.com', 'reddit'),
+  social('pinterest.*', 'pinterest'),
+  social('tiktok.com', 'tiktok'),
+  social('youtube.com', 'youtube'),
+  social('snapchat.com', 'snapchat'),
+  social('threads.net', 'threads'),
+  social('quora.com', 'quora'),
+  social('news.ycombinator.com', 'hacker_news')
+];
+
+// Channel credited to a click id when the touchpoint has no UTM medium
+const CLICK_PLATFORM_CHANNELS: Record<string, Channel> = {
+  google_ads: 'paid_search',
+  microsoft_ads: 'paid_search',
+  google_display: 'display',
+  meta: 'paid_social',
+  tiktok: 'paid_social',
+  linkedin: 'paid_social',
+  x: 'paid_social',
+  snapchat: 'paid_social',
+  pinterest: 'paid_social',
+  impact: 'affiliate'
+};
+
+const MEDIUM_CHANNELS: { pattern: RegExp; channel: Channel }[] = [
+  { pattern: /^(paid[_-]?social|social[_-]?paid|paid[_-]?social[_-]?media)$/, channel: 'paid_social' },
+  { pattern: /^(cpc|ppc|cpa|paid|paid[_-]?search|sem)$/, channel: 'paid_search' },
+  { pattern: /^(display|banner|cpm|programmatic|video)$/, channel: 'display' },
+  { pattern: /^(affiliate|partner)s?$/, channel: 'affiliate' },
+  { pattern: /^(e[_-]?mail|newsletter|crm)$/, channel: 'email' },
+  { pattern: /^(social|social[_-]?media|social[_-]?network|sm)$/, channel: 'organic_social' },
+  { pattern: /^organic$/, channel: 'organic_search' },
+  { pattern: /^(ai|llm|chatbot)$/, channel: 'ai_assistant' },
+  { pattern: /^referral$/, channel: 'referral' },
+  { pattern: /^(none|\(none\)|direct)$/, channel: 'direct' }
+];
+
+const SOCIAL_SOURCES = new Set([
+  ...DEFAULT_CHANNEL_RULES.filter(rule => rule.channel === 'organic_social').map(rule => rule.source),
+  ...Object.keys(CLICK_PLATFORM_CHANNELS)
+    .filter(platform => CLICK_PLATFORM_CHANNELS[platform] === 'paid_social')
+    .flatMap(platform => PLATFORM_SOURCES[platform] || [])
+]);
+
+function parseHostname(url?: string | null): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^www\./, '');
+  if (normalized.endsWith('.*')) {
+    const base = normalized.slice(0, -2).replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^(.+\\.)?${base}\\.[a-z]{2,3}(\\.[a-z]{2})?$`).test(hostname);
+  }
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+/**
+ * Finds the rule for a referrer hostname. Client rules are checked before
+ * the defaults, so a client can reclassify any built-in domain.
+ */
+export function matchChannelRule(hostname: string, clientRules: ChannelRule[] = []): ChannelRule | null {
+  return [...clientRules, ...DEFAULT_CHANNEL_RULES].find(rule => matchesDomain(hostname, rule.domain)) || null;
+}
+
+function channelForMedium(medium: string, source: string): Channel | null {
+  const match = MEDIUM_CHANNELS.find(({ pattern }) => pattern.test(medium));
+  if (!match) return null;
+  if (match.channel === 'paid_search' && SOCIAL_SOURCES.has(source)) return 'paid_social';
+  return match.channel;
+}
+
+/**
+ * Classifies a hit, in order of precedence:
+ * 1. UTM tags, with the channel derived from utm_medium (or from the
+ *    source as a domain, e.g. the `utm_source=chatgpt.com` AI tools add)
+ * 2. A click id, crediting the ad platform it belongs to
+ * 3. The referrer hostname, matched against client and default rules;
+ *    unknown hosts are referrals and the site's own host is internal
+ * 4. Direct, when there is no referrer
+ */
+export function classifyTraffic(input: TrafficInput, clientRules: ChannelRule[] = []): TrafficSource {
+  const utmSource = input.utm_source?.trim();
+  const utmMedium = input.utm_medium?.trim();
+  const adClick = resolveAdClick(input.click_ids, utmSource);
+
+  if (utmSource) {
+    const source = utmSource.toLowerCase();
+    const medium = utmMedium?.toLowerCase();
+    const sourceRule = !medium ? matchChannelRule(source.replace(/^https?:\/\//, ''), clientRules) : null;
+    const channel = (medium && channelForMedium(medium, source))
+      || sourceRule?.channel
+      || (adClick && CLICK_PLATFORM_CHANNELS[adClick.platform])
+      || 'other';
+
+    return { source: utmSource, medium: utmMedium || sourceRule?.medium || null, channel };
+  }
+
+  if (adClick) {
+    return {
+      source: PLATFORM_SOURCES[adClick.platform]?.[0] || adClick.platform,
+      medium: utmMedium || 'cpc',
+      channel: CLICK_PLATFORM_CHANNELS[adClick.platform] || 'other'
+    };
+  }
+
+  const referrerHost = parseHostname(input.referrer);
+  if (!referrerHost) {
+    return { source: 'direct', medium: '(none)', channel: 'direct' };
+  }
+
+  // Navigation within the site keeps the session's original source
+  if (referrerHost === parseHostname(input.page_url)) {
+    return { source: null, medium: null, channel: 'internal' };
+  }
+
+  const rule = matchChannelRule(referrerHost, clientRules);
+  if (rule) {
+    return { source: rule.source, medium: rule.medium, channel: rule.channel };
+  }
+
+  return { source: referrerHost, medium: 'referral', channel: 'referral' };
+}
@@ -0,0 +1,103 @@
+/**
+ * Click-id registry shared by the browser tracker and the ingestion
+ * functions. Add a platform parameter here and both sides pick it up.
+ * This file must stay free of imports so it builds for Deno and the browser.
+ */
+
+export interface ClickIdDefinition {
+  // URL parameter or cookie name
+  param: string;
+  platform: string;
+  source: 'url' | 'cookie';
+  // How long the platform credits a click, used as the storage expiry
+  ttlDays: number;
+  // Browser ids (like Meta's _fbp) are kept for matching but never used as ad_id
+  identifiesClick: boolean;
+}
+
+export const CLICK_ID_REGISTRY: ClickIdDefinition[] = [
+  { param: 'gclid', platform: 'google_ads', source: 'url', ttlDays: 90, identifiesClick: true },
+  { param: 'gbraid', platform: 'google_ads', source: 'url', ttlDays: 90, identifiesClick: true },
+  { param: 'wbraid', platform: 'google_ads', source: 'url', ttlDays: 90, identifiesClick: true },
+  { param: 'dclid', platform: 'google_display', source: 'url', ttlDays: 30, identifiesClick: true },
+  { param: 'fbclid', platform: 'meta', source: 'url', ttlDays: 28, identifiesClick: true },
+  { param: '_fbc', platform: 'meta', source: 'cookie', ttlDays: 90, identifiesClick: true },
+  { param: '_fbp', platform: 'meta', source: 'cookie', ttlDays: 90, identifiesClick: false },
+  { param: 'ttclid', platform: 'tiktok', source: 'url', ttlDays: 28, identifiesClick: true },
+  { param: 'msclkid', platform: 'microsoft_ads', source: 'url', ttlDays: 90, identifiesClick: true },
+  { param: 'li_fat_id', platform: 'linkedin', source: 'url', ttlDays: 90, identifiesClick: true },
+  { param: 'twclid', platform: 'x', source: 'url', ttlDays: 30, identifiesClick: true },
+  { param: 'ScCid', platform: 'snapchat', source: 'url', ttlDays: 28, identifiesClick: true },
+  { param: 'epik', platform: 'pinterest', source: 'url', ttlDays: 30, identifiesClick: true },
+  { param: 'irclickid', platform: 'impact', source: 'url', ttlDays: 30, identifiesClick: true }
+];
+
+// utm_source values that name each platform, used to pick the click id
+// belonging to the campaign a touchpoint came from
+export const PLATFORM_SOURCES: Record<string, string[]> = {
+  google_ads: ['google', 'adwords', 'youtube'],
+  google_display: ['dv360', 'doubleclick', 'cm360'],
+  meta: ['facebook', 'fb', 'instagram', 'ig', 'meta'],
+  tiktok: ['tiktok'],
+  microsoft_ads: ['bing', 'microsoft'],
+  linkedin: ['linkedin'],
+  x: ['twitter', 'x'],
+  snapchat: ['snapchat'],
+  pinterest: ['pinterest'],
+  impact: ['impact']
+};
+
+const MAX_CLICK_ID_LENGTH = 512;
+
+export function getClickIdDefinition(param: string): ClickIdDefinition | undefined {
+  return CLICK_ID_REGISTRY.find(definition => definition.param === param);
+}
+
+/**
+ * Keeps only registered click ids with sane string values, so arbitrary
+ * keys from the request never reach the database.
+ */
+export function sanitizeClickIds(clickIds: Record<string, unknown> | null | undefined): Record<string, string> | null {
+  if (!clickIds || typeof clickIds !== 'object') return null;
+
+  const sanitized: Record<string, string> = {};
+  CLICK_ID_REGISTRY.forEach(({ param }) => {
+    const value = clickIds[param];
+    if (typeof value === 'string' && value && value.length <= MAX_CLICK_ID_LENGTH) {
+      sanitized[param] = value;
+    }
+  });
+  return Object.keys(sanitized).length > 0 ? sanitized : null;
+}
+
+export interface AdClick {
+  platform: string;
+  param: string;
+  value: string;
+}
+
+/**
+ * Picks the click id that identifies the ad behind a touchpoint. When the
+ * touchpoint's utm_source names a platform, that platform's click id wins;
+ * otherwise the first click id in registry order is used.
+ */
+export function resolveAdClick(
+  clickIds: Record<string, unknown> | null | undefined,
+  source?: string | null
+): AdClick | null {
+  const available = sanitizeClickIds(clickIds);
+  if (!available) return null;
+
+  const candidates = CLICK_ID_REGISTRY.filter(definition =>
+    definition.identifiesClick && available[definition.param]
+  );
+  if (candidates.length === 0) return null;
+
+  const normalizedSource = source?.trim().toLowerCase();
+  const sourcePlatform = normalizedSource
+    ? Object.keys(PLATFORM_SOURCES).find(platform => PLATFORM_SOURCES[platform].includes(normalizedSource))
+    : undefined;
+
+  const match = candidates.find(definition => definition.platform === sourcePlatform) || candidates[0];
+  return { platform: match.platform, param: match.param, value: available[match.param] };
+}
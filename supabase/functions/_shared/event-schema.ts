@@ -0,0 +1,131 @@
+/**
+ * Schemas of the events and conversions accepted by the ingestion API
+ * (`event-capture`, `/v1/events` and `/v1/batch`). Every route that stores
+ * them validates against these, so the tracker, server-side senders and the
+ * legacy routes all get the same rules and the same error messages.
+ */
+import { z } from "npm:zod@3.22.4";
+
+export const API_VERSION = "v1";
+
+// Event types emitted by the tracker itself, accepted for every client.
+// Anything else needs an active row in event_definitions
+export const BUILT_IN_EVENT_TYPES = [
+  "page_view",
+  "form_submit",
+  "checkout_click",
+  "purchase",
+  "conversion",
+  "user_engagement",
+  "identify",
+  "view_item",
+  "add_to_cart",
+  "begin_checkout",
+  // Sent by the dashboard's Test Event button
+  "test_event"
+];
+
+const sha256Hex = z.string().regex(/^[a-f0-9]{64}$/, "Must be a lowercase hex SHA-256 digest");
+const consentState = z.enum(["unknown", "granted", "denied"]);
+const propertyBag = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]), {
+  invalid_type_error: "Must be an object of strings, numbers, booleans or nulls"
+});
+const shortString = z.string().max(255);
+// Idempotency keys: a second event or conversion with the same key is not
+// stored again
+const idempotencyKey = z.string().min(1).max(255);
+
+export const eventPayloadSchema = z.object({
+  event_id: idempotencyKey.optional(),
+  client_id: z.string().min(1, "Client ID is required"),
+  visitor_id: z.string().min(1, "Visitor ID is required").max(64),
+  session_id: z.string().max(64).optional(),
+  // `pageview` is what the first tracker releases sent
+  event_type: z.string().min(1, "Event type is required").max(64)
+    .transform(type => type === "pageview" ? "page_view" : type),
+  email_hash: sha256Hex.optional(),
+  utm_params: z.object({
+    source: shortString.optional(),
+    medium: shortString.optional(),
+    campaign: shortString.optional(),
+    content: shortString.optional(),
+    term: shortString.optional()
+  }).optional(),
+  click_ids: z.record(z.string().max(1024)).optional(),
+  // ISO 8601, or epoch milliseconds as older senders used
+  timestamp: z.union([
+    z.string().datetime({ offset: true, message: "Must be an ISO 8601 date-time" }),
+    z.number().int().nonnegative()
+  ]).transform(value => new Date(value).toISOString()),
+  page_url: z.string().url("Must be an absolute URL").max(2048),
+  referrer: z.string().max(2048).optional(),
+  engaged_time_ms: z.number().int().nonnegative().optional(),
+  consent: z.object({
+    analytics: consentState.optional(),
+    ads: consentState.optional(),
+    identity: consentState.optional()
+  }).optional(),
+  properties: propertyBag.optional(),
+  user_id: z.string().min(1).max(255).optional(),
+  phone_hash: sha256Hex.optional(),
+  traits: propertyBag.optional(),
+  ecommerce: z.object({
+    value: z.number().optional(),
+    currency: z.string().length(3, "Must be an ISO 4217 currency code").optional(),
+    transaction_id: shortString.optional(),
+    items: z.array(z.record(z.unknown())).optional()
+  }).optional()
+});
+
+export type EventPayload = z.infer<typeof eventPayloadSchema>;
+
+export const conversionPayloadSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  visitor_id: z.string().min(1, "Visitor ID is required").max(64),
+  conversion_type: z.string().min(1, "Conversion type is required").max(64),
+  value: z.number().finite().optional(),
+  currency: z.string().length(3, "Must be an ISO 4217 currency code").optional(),
+  transaction_id: shortString.optional(),
+  // Defaults to transaction_id when stored
+  order_id: idempotencyKey.optional(),
+  email_hash: sha256Hex.optional(),
+  user_id: z.string().min(1).max(255).optional(),
+  timestamp: eventPayloadSchema.shape.timestamp
+});
+
+export type ConversionPayload = z.infer<typeof conversionPayloadSchema>;
+
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Flattens zod issues into `{ field, message }` pairs, with the field as a
+ * dotted path such as `utm_params.source` or `events.3.timestamp`.
+ */
+export function toFieldIssues(error: z.ZodError, prefix: (string | number)[] = []): FieldIssue[] {
+  return error.issues.map(issue => ({
+    field: [...prefix, ...issue.path].join(".") || "body",
+    message: issue.message
+  }));
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: FieldIssue[] };
+
+function parseWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown, prefix: (string | number)[]): ParseResult<T> {
+  const result = schema.safeParse(body);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: toFieldIssues(result.error, prefix) };
+}
+
+export function parseEventPayload(body: unknown, prefix: (string | number)[] = []): ParseResult<EventPayload> {
+  return parseWith(eventPayloadSchema, body, prefix);
+}
+
+export function parseConversionPayload(body: unknown, prefix: (string | number)[] = []): ParseResult<ConversionPayload> {
+  return parseWith(conversionPayloadSchema, body, prefix);
+}
@@ -0,0 +1,104 @@
+/**
+ * Per-client tracker settings edited on the dashboard, stored in
+ * `clients.tracker_config` and served to the tracker at startup. Shared by
+ * `event-capture` and the browser tracker so both accept the same shape.
+ * This file must stay free of imports so it builds for Deno and the browser.
+ */
+
+export type RemoteConsentState = 'unknown' | 'granted' | 'denied';
+
+export interface RemoteEcommerceMapping {
+  eventType: string;
+  conversionType?: string;
+}
+
+export interface RemoteTrackerConfig {
+  // Default consent per region code, with `default` applying everywhere else
+  consentDefaults?: Record<string, Partial<Record<'analytics' | 'ads' | 'identity', RemoteConsentState>>>;
+  cookieDomain?: string;
+  // Domains whose outbound links carry the visitor id
+  linkerDomains?: string[];
+  // Share of visitors tracked, from 0 to 1
+  sampleRate?: number;
+  // GA4 ecommerce event name to the event type it is recorded as, or false
+  // to ignore it
+  ecommerceMapping?: Record<string, RemoteEcommerceMapping | false>;
+}
+
+// Built-in event types an ecommerce event can be recorded as; `conversion`
+// records a conversion. Any other target needs an event definition
+export const ECOMMERCE_EVENT_TYPES = ['view_item', 'add_to_cart', 'begin_checkout', 'purchase', 'conversion'];
+
+const CONSENT_CATEGORIES = ['analytics', 'ads', 'identity'];
+const CONSENT_STATES = ['unknown', 'granted', 'denied'];
+const DOMAIN_PATTERN = /^\.?[a-z0-9-]+(\.[a-z0-9-]+)*$/i;
+const EVENT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keeps the known settings with valid values and drops everything else, so
+ * a bad dashboard value or a tampered response never reaches the tracker's
+ * configuration.
+ */
+export function sanitizeTrackerConfig(raw: unknown): RemoteTrackerConfig {
+  if (!isRecord(raw)) return {};
+
+  const config: RemoteTrackerConfig = {};
+
+  if (isRecord(raw.consentDefaults)) {
+    const consentDefaults: NonNullable<RemoteTrackerConfig['consentDefaults']> = {};
+    Object.entries(raw.consentDefaults).forEach(([region, states]) => {
+      if (!isRecord(states)) return;
+      const valid = Object.fromEntries(
+        Object.entries(states).filter(([category, state]) =>
+          CONSENT_CATEGORIES.includes(category) && CONSENT_STATES.includes(state as string)
+        )
+      );
+      if (Object.keys(valid).length > 0) {
+        consentDefaults[region === 'default' ? region : region.toUpperCase()] = valid;
+      }
+    });
+    if (Object.keys(consentDefaults).length > 0) {
+      config.consentDefaults = consentDefaults;
+    }
+  }
+
+  if (typeof raw.cookieDomain === 'string' && DOMAIN_PATTERN.test(raw.cookieDomain)) {
+    config.cookieDomain = raw.cookieDomain.toLowerCase();
+  }
+
+  if (Array.isArray(raw.linkerDomains)) {
+    const domains = raw.linkerDomains.filter(
+      (domain): domain is string => typeof domain === 'string' && DOMAIN_PATTERN.test(domain)
+    );
+    if (domains.length > 0) {
+      config.linkerDomains = domains.map(domain => domain.toLowerCase());
+    }
+  }
+
+  if (typeof raw.sampleRate === 'number' && raw.sampleRate >= 0 && raw.sampleRate <= 1) {
+    config.sampleRate = raw.sampleRate;
+  }
+
+  if (isRecord(raw.ecommerceMapping)) {
+    const ecommerceMapping: NonNullable<RemoteTrackerConfig['ecommerceMapping']> = {};
+    Object.entries(raw.ecommerceMapping).forEach(([eventName, mapping]) => {
+      if (mapping === false) {
+        ecommerceMapping[eventName] = false;
+      } else if (isRecord(mapping) && typeof mapping.eventType === 'string' && EVENT_NAME_PATTERN.test(mapping.eventType)) {
+        const { eventType, conversionType } = mapping;
+        ecommerceMapping[eventName] = eventType === 'conversion' && typeof conversionType === 'string' && conversionType
+          ? { eventType, conversionType: conversionType.slice(0, 255) }
+          : { eventType };
+      }
+    });
+    if (Object.keys(ecommerceMapping).length > 0) {
+      config.ecommerceMapping = ecommerceMapping;
+    }
+  }
+
+  return config;
+}
@@ -1,53 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.39.3";
-
-interface AttributionModelSettings {
-  lookback_window_days: number;
-  decay_base?: number;
-  first_touch_weight?: number;
-  last_touch_weight?: number;
-  middle_touch_weight?: number;
-}
-
-interface Touchpoint {
-  id: string;
-  timestamp: string;
-  source: string;
-  medium?: string;
-  campaign?: string;
-  ad_id?: string;
-}
-
-// Types
-interface ConversionPayload {
-  client_id: string;
-  visitor_id: string;
-  event_type: 'conversion';
-  conversion_type: string;
-  value?: number;
-  currency?: string;
-  email_hash?: string;
-  utm_params?: UTMParams;
-  click_ids?: ClickIds;
-  timestamp: string;
-  page_url: string;
-}
-
-interface UTMParams {
-  source?: string;
-  medium?: string;
-  campaign?: string;
-  content?: string;
-  term?: string;
-}
-
-interface ClickIds {
-  fbclid?: string;
-  gclid?: string;
-  ttclid?: string;
-  msclkid?: string;
-  [key: string]: string | undefined;
-}
+import { attributeConversion } from "../_shared/attribution.ts";
+import { authenticateApiKey } from "../_shared/auth.ts";
+import { parseConversionPayload } from "../_shared/event-schema.ts";
 
 // Create Supabase client
 const supabaseClient = createClient(
@@ -55,62 +10,6 @@ const supabaseClient = createClient(
   Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
 );
 
-async function calculateAttribution(
-  touchpoints: Touchpoint[],
-  modelType: string,
-  settings: AttributionModelSettings
-): Promise<{ [key: string]: number }> {
-  const weights: { [key: string]: number } = {};
-
-  if (touchpoints.length === 0) {
-    return weights;
-  }
-
-  switch (modelType) {
-    case 'first_touch':
-      weights[touchpoints[0].id] = 1;
-      break;
-
-    case 'last_touch':
-      weights[touchpoints[touchpoints.length - 1].id] = 1;
-      break;
-
-    case 'linear': {
-      const weight = 1 / touchpoints.length;
-      touchpoints.forEach(tp => {
-        weights[tp.id] = weight;
-      });
-      break;
-    }
-
-    case 'time_decay': {
-      const decayBase = settings.decay_base || 0.7;
-      const lastTs = new Date(touchpoints[touchpoints.length - 1].timestamp).getTime();
-      let totalWeight = 0;
-
-      touchpoints.forEach(tp => {
-        const daysBefore = (lastTs - new Date(tp.timestamp).getTime()) / (1000 * 60 * 60 * 24);
-        const weight = Math.pow(decayBase, daysBefore);
-        totalWeight += weight;
-        weights[tp.id] = weight; // Store unnormalized weight
-      });
-
-      // Normalize weights
-      Object.keys(weights).forEach(id => {
-        weights[id] = weights[id] / totalWeight;
-      });
-      break;
-    }
-
-    default:
-      // Default to last-touch attribution
-      weights[touchpoints[touchpoints.length - 1].id] = 1;
-      break;
-  }
-
-  return weights;
-}
-
 // CORS headers
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -133,25 +32,59 @@ serve(async (req: Request) => {
       );
     }
 
-    // Parse payload
-    const payload: ConversionPayload = await req.json();
+    // Server-to-server only: the API key names the client
+    const auth = await authenticateApiKey(supabaseClient, req, "ingest");
+    if (!auth.success) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    // Store the conversion first
+    // Parse and validate payload. client_id may be left out; when given it
+    // must match the key's client
+    const body = await req.json().catch(() => undefined);
+    const parsed = parseConversionPayload(
+      body && typeof body === "object" && !Array.isArray(body) ? { client_id: auth.clientId, ...body } : body
+    );
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: "Invalid conversion", issues: parsed.issues }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const payload = parsed.data;
+
+    if (payload.client_id !== auth.clientId) {
+      return new Response(
+        JSON.stringify({
+          error: "API key does not belong to this client",
+          issues: [{ field: "client_id", message: "Does not match the API key" }]
+        }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Store the conversion first. One whose order id was already stored is
+    // skipped, so a retried or double-fired conversion is counted once
+    const orderId = payload.order_id ?? payload.transaction_id;
     const { data: conversion, error: conversionError } = await supabaseClient
       .from("conversions")
-      .insert({
+      .upsert({
         visitor_id: payload.visitor_id,
         client_id: payload.client_id,
         conversion_type: payload.conversion_type,
         value: payload.value,
         currency: payload.currency,
+        transaction_id: payload.transaction_id,
+        order_id: orderId,
         email_hash: payload.email_hash,
         timestamp: payload.timestamp
-      })
+      }, { onConflict: "client_id,order_id", ignoreDuplicates: true })
       .select()
-      .single();
+      .maybeSingle();
 
-    if (conversionError || !conversion) {
+    if (conversionError) {
       console.error("Error storing conversion:", conversionError);
       return new Response(
         JSON.stringify({ error: "Failed to store conversion" }),
@@ -159,116 +92,55 @@ serve(async (req: Request) => {
       );
     }
 
-    // Get attribution model settings
-    const { data: modelSettings } = await supabaseClient
-      .from("attribution_models")
-      .select("name, settings")
-      .eq("client_id", payload.client_id)
-      .eq("is_active", true)
-      .single();
-
-    const modelName = modelSettings?.name || "last_touch";
-    const lookbackDays = modelSettings?.settings?.lookback_window_days || 30;
-    const lookbackDate = new Date();
-    lookbackDate.setDate(lookbackDate.getDate() - lookbackDays);
-
-    // Get all visitor IDs for this user
-    const visitorIds = [payload.visitor_id];
-    if (payload.email_hash) {
-      const { data: identityMap } = await supabaseClient
-        .from("identity_map")
-        .select("visitor_ids")
-        .eq("email_hash", payload.email_hash)
+    if (!conversion) {
+      const { data: original, error: lookupError } = await supabaseClient
+        .from("conversions")
+        .select("id")
         .eq("client_id", payload.client_id)
-        .single();
-
-      if (identityMap?.visitor_ids) {
-        visitorIds.push(...identityMap.visitor_ids);
+        .eq("order_id", orderId)
+        .maybeSingle();
+
+      if (lookupError || !original) {
+        console.error("Error loading original conversion:", lookupError);
+        return new Response(
+          JSON.stringify({ error: "Failed to store conversion" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
-    }
-
-    // Get all touchpoints
-    const { data: touchpoints } = await supabaseClient
-      .from("events")
-      .select("id, timestamp, utm_source, utm_medium, utm_campaign, click_ids")
-      .in("visitor_id", visitorIds)
-      .eq("client_id", payload.client_id)
-      .gte("timestamp", lookbackDate.toISOString())
-      .lt("timestamp", payload.timestamp)
-      .order("timestamp", { ascending: true });
-
-    if (!touchpoints?.length) {
-      // No touchpoints found, attribute to direct
-      await supabaseClient
-        .from("attribution_results")
-        .insert({
-          client_id: payload.client_id,
-          conversion_id: conversion.id,
-          visitor_id: payload.visitor_id,
-          attribution_model: modelName,
-          attribution_weight: 1,
-          source: "direct",
-          timestamp: payload.timestamp,
-          credit: payload.value || 0 // Assign full credit to direct
-        });
 
       return new Response(
-        JSON.stringify({ success: true, attribution: "direct" }),
+        JSON.stringify({ success: true, conversion_id: original.id, duplicate: true }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Calculate attribution weights
-    const formattedTouchpoints = touchpoints.map(tp => ({
-      id: tp.id,
-      timestamp: tp.timestamp,
-      source: tp.utm_source || "direct",
-      medium: tp.utm_medium,
-      campaign: tp.utm_campaign,
-      ad_id: tp.click_ids?.gclid || tp.click_ids?.fbclid || tp.click_ids?.ttclid || tp.click_ids?.msclkid
-    }));
-
-    const weights = await calculateAttribution(
-      formattedTouchpoints,
-      modelName,
-      modelSettings?.settings || { lookback_window_days: 30 }
-    );
-
-    // Store attribution results
-    const attributionResults = touchpoints.map(tp => ({
-      client_id: payload.client_id,
-      conversion_id: conversion.id,
-      visitor_id: tp.visitor_id,
-      attributed_event_id: tp.id,
-      attribution_model: modelName,
-      attribution_weight: weights[tp.id] || 0,
-      source: tp.utm_source || "direct",
-      medium: tp.utm_medium,
-      campaign: tp.utm_campaign,
-      ad_id: tp.click_ids?.gclid || tp.click_ids?.fbclid || tp.click_ids?.ttclid || tp.click_ids?.msclkid,
-      timestamp: payload.timestamp,
-      credit: (weights[tp.id] || 0) * (payload.value || 0) // Calculate proportional credit
-    }));
-
-    const { error: attributionError } = await supabaseClient
-      .from("attribution_results")
-      .insert(attributionResults);
+    let summary;
+    try {
+      summary = await attributeConversion(supabaseClient, { ...conversion, user_id: payload.user_id });
+    } catch (attributionError) {
+      // The conversion is stored, so a retry would only hit the duplicate
+      // path; report success like event-capture does for its conversions
+      console.error("Error attributing conversion:", conversion.id, attributionError);
+      return new Response(
+        JSON.stringify({ success: true, conversion_id: conversion.id }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    if (attributionError) {
-      console.error("Error storing attribution results:", attributionError);
+    if (summary.attribution === "direct") {
       return new Response(
-        JSON.stringify({ error: "Failed to store attribution results" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: true, conversion_id: conversion.id, attribution: "direct" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         success: true,
         conversion_id: conversion.id,
-        attribution_count: attributionResults.length,
+        attribution_count: summary.attribution_count,
         total_credit: payload.value || 0,
-        model: modelName
+        model: summary.model
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -280,4 +152,4 @@ serve(async (req: Request) => {
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
-});
\ No newline at end of file
+});
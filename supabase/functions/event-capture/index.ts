@@ -1,19 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.39.3";
+import { sanitizeClickIds } from "../_shared/click-ids.ts";
+import { ChannelRule, classifyTraffic } from "../_shared/channels.ts";
+import { ECOMMERCE_EVENT_TYPES, RemoteTrackerConfig, sanitizeTrackerConfig } from "../_shared/tracker-config.ts";
+import { attributeConversion } from "../_shared/attribution.ts";
+import { authenticateApiKey, isAllowedOrigin } from "../_shared/auth.ts";
+import {
+  API_VERSION,
+  BUILT_IN_EVENT_TYPES,
+  ConversionPayload,
+  EventPayload,
+  FieldIssue,
+  parseConversionPayload,
+  parseEventPayload
+} from "../_shared/event-schema.ts";
 
 // Types
-interface EventData {
-  visitor_id: string;
-  event_type: string;
-  email_hash?: string;
-  utm_params?: UTMParams;
-  click_ids?: ClickIds;
-  timestamp: number;
-  page_url: string;
-  referrer?: string;
-  client_id?: string;
-}
-
 interface DebugLog {
   timestamp: string;
   stage: string;
@@ -29,12 +31,16 @@ interface UTMParams {
   term?: string;
 }
 
-interface ClickIds {
-  fbclid?: string;
-  gclid?: string;
-  ttclid?: string;
-  msclkid?: string;
-  [key: string]: string | undefined;
+interface ClientRecord {
+  id: string;
+  domain: string | null;
+}
+
+// Per-request trace stored with single events in `events.debug_log`
+interface RequestTrace {
+  log: (stage: string, details: unknown) => void;
+  entries: DebugLog[];
+  startTime: number;
 }
 
 // Create Supabase client
@@ -46,10 +52,964 @@ const supabaseClient = createClient(
 // CORS headers for preflight requests
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key"
 };
 
+// Upper bound on events accepted in a single batch request
+const MAX_BATCH_SIZE = 50;
+
+// First-party visitor cookie, set HttpOnly so ITP treats it as server-set
+const VISITOR_COOKIE_NAME = "_gt_vid";
+const VISITOR_COOKIE_MAX_AGE = 400 * 24 * 60 * 60; // browsers cap cookie lifetime at 400 days
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const COOKIE_DOMAIN_PATTERN = /^\.?[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)+$/;
+
+/**
+ * The visitor cookie is only useful on credentialed requests, which need
+ * the caller's origin echoed back instead of a wildcard. Only an origin on
+ * the client's registered domain is echoed; browsers refuse the response
+ * on any other page.
+ */
+function credentialedCorsHeaders(req: Request, client: ClientRecord | null): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": corsHeaders["Access-Control-Allow-Headers"],
+    "Vary": "Origin"
+  };
+
+  const origin = req.headers.get("Origin");
+  if (client && origin && isAllowedOrigin(origin, client.domain)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    headers["Access-Control-Allow-Credentials"] = "true";
+  }
+  return headers;
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const cookieHeader = req.headers.get("Cookie") || "";
+  for (const part of cookieHeader.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(rest.join("="));
+    }
+  }
+  return null;
+}
+
+function buildVisitorCookie(value: string, maxAge: number, cookieDomain?: string | null): string {
+  const attributes = [
+    `${VISITOR_COOKIE_NAME}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "Secure",
+    "SameSite=Lax"
+  ];
+  if (cookieDomain && COOKIE_DOMAIN_PATTERN.test(cookieDomain)) {
+    attributes.push(`Domain=${cookieDomain}`);
+  }
+  return attributes.join("; ");
+}
+
+/**
+ * Looks up visitor ids that were merged into another visitor, so events
+ * sent under an old id are stored on the surviving one.
+ */
+async function resolveVisitorAliases(clientId: string, visitorIds: string[]): Promise<Map<string, string>> {
+  const aliases = new Map<string, string>();
+  const { data, error } = await supabaseClient
+    .from("visitor_aliases")
+    .select("alias_visitor_id, visitor_id")
+    .eq("client_id", clientId)
+    .in("alias_visitor_id", [...new Set(visitorIds)]);
+
+  if (error) {
+    console.error("Error loading visitor aliases:", error);
+    return aliases;
+  }
+
+  (data || []).forEach(row => aliases.set(row.alias_visitor_id, row.visitor_id));
+  return aliases;
+}
+
+/**
+ * Loads the client's referrer rules for the channel classifier. Falls back
+ * to the built-in rules alone when they cannot be read.
+ */
+async function loadChannelRules(clientId: string): Promise<ChannelRule[]> {
+  const { data, error } = await supabaseClient
+    .from("channel_rules")
+    .select("domain, source, medium, channel")
+    .eq("client_id", clientId)
+    .eq("is_active", true)
+    .order("priority", { ascending: false });
+
+  if (error) {
+    console.error("Error loading channel rules:", error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Normalizes UTM parameters with the client's mappings (see
+ * normalize_utm_value). Falls back to the raw values when the mappings
+ * cannot be applied, so ingestion carries on.
+ */
+async function normalizeUtmParams(clientId: string, params: (UTMParams | undefined)[]): Promise<(UTMParams | undefined)[]> {
+  if (!params.some(Boolean)) return params;
+
+  const { data, error } = await supabaseClient.rpc("normalize_utm_params", {
+    p_client_id: clientId,
+    p_params: params.map(utm => utm || {})
+  });
+
+  if (error || !Array.isArray(data)) {
+    console.error("Error normalizing UTM parameters:", error);
+    return params;
+  }
+
+  return params.map((utm, index) => utm && {
+    ...utm,
+    source: data[index]?.source ?? undefined,
+    medium: data[index]?.medium ?? undefined,
+    campaign: data[index]?.campaign ?? undefined
+  });
+}
+
+/**
+ * Whether a visitor id already has data, or was merged into another
+ * visitor before. Anyone can send any id to /visitor, so merging such an id
+ * would hand its history to whoever holds the cookie.
+ */
+async function hasVisitorHistory(clientId: string, visitorId: string): Promise<boolean> {
+  const [visitor, alias, events] = await Promise.all([
+    supabaseClient.from("visitors").select("visitor_id").eq("visitor_id", visitorId).maybeSingle(),
+    supabaseClient.from("visitor_aliases").select("alias_visitor_id").eq("alias_visitor_id", visitorId).maybeSingle(),
+    supabaseClient.from("events").select("id").eq("client_id", clientId).eq("visitor_id", visitorId).limit(1)
+  ]);
+
+  const error = visitor.error || alias.error || events.error;
+  if (error) {
+    throw error;
+  }
+  return !!visitor.data || !!alias.data || (events.data || []).length > 0;
+}
+
+/**
+ * Reconciles the tracker's visitor id with the HttpOnly cookie. An existing
+ * cookie wins; the tracker's id is merged into it only when nothing was
+ * stored under it yet, so events it sends later land on the cookie's id.
+ * Otherwise the cookie is set to the tracker's id. DELETE expires the
+ * cookie after consent is withdrawn. The client id comes in the query
+ * string, so preflights can be checked against the client's domain too.
+ */
+async function handleVisitor(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const body = req.method === "POST"
+    ? await readJson(req) as { client_id?: string; visitor_id?: unknown; cookie_domain?: string } | undefined
+    : undefined;
+  const clientId = url.searchParams.get("client_id") || body?.client_id;
+  const client = clientId ? await findClient(clientId) : null;
+  const headers = credentialedCorsHeaders(req, client);
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers });
+  }
+
+  if (!clientId) {
+    return new Response(JSON.stringify({ error: "Client ID is required" }), {
+      status: 400,
+      headers: { ...headers, "Content-Type": "application/json" }
+    });
+  }
+
+  if (!client) {
+    return new Response(JSON.stringify({ error: "Invalid client ID" }), {
+      status: 400,
+      headers: { ...headers, "Content-Type": "application/json" }
+    });
+  }
+
+  if (!isAllowedOrigin(req.headers.get("Origin"), client.domain)) {
+    return new Response(JSON.stringify({ error: "Origin not allowed for this client" }), {
+      status: 403,
+      headers: { ...headers, "Content-Type": "application/json" }
+    });
+  }
+
+  if (req.method === "DELETE") {
+    return new Response(null, {
+      status: 204,
+      headers: {
+        ...headers,
+        "Set-Cookie": buildVisitorCookie("", 0, url.searchParams.get("cookie_domain"))
+      }
+    });
+  }
+
+  const cookieVisitorId = readCookie(req, VISITOR_COOKIE_NAME);
+  const trackerVisitorId = typeof body?.visitor_id === "string" && VISITOR_ID_PATTERN.test(body.visitor_id)
+    ? body.visitor_id
+    : null;
+  const visitorId = cookieVisitorId && VISITOR_ID_PATTERN.test(cookieVisitorId)
+    ? cookieVisitorId
+    : trackerVisitorId || crypto.randomUUID();
+
+  if (trackerVisitorId && trackerVisitorId !== visitorId) {
+    try {
+      if (await hasVisitorHistory(client.id, trackerVisitorId)) {
+        // The tracker switches to the cookie's id; what was stored stays put
+        console.log("Not merging visitor with history:", trackerVisitorId);
+      } else {
+        const { error: mergeError } = await supabaseClient.rpc("merge_visitor", {
+          p_client_id: client.id,
+          p_from: trackerVisitorId,
+          p_to: visitorId
+        });
+        if (mergeError) throw mergeError;
+      }
+    } catch (mergeError) {
+      console.error("Error merging visitors:", mergeError);
+    }
+  }
+
+  return new Response(JSON.stringify({ visitor_id: visitorId }), {
+    status: 200,
+    headers: {
+      ...headers,
+      "Content-Type": "application/json",
+      "Set-Cookie": buildVisitorCookie(visitorId, VISITOR_COOKIE_MAX_AGE, body?.cookie_domain)
+    }
+  });
+}
+
+/**
+ * Maps a tracker event onto an `events` row. `utm` holds the normalized
+ * UTM parameters; the raw ones are stored in the `utm_*` columns.
+ */
+function buildEventRecord(
+  eventData: EventPayload,
+  clientId: string,
+  channelRules: ChannelRule[],
+  utm = eventData.utm_params
+) {
+  const traffic = classifyTraffic({
+    utm_source: utm?.source,
+    utm_medium: utm?.medium,
+    click_ids: eventData.click_ids,
+    referrer: eventData.referrer,
+    page_url: eventData.page_url
+  }, channelRules);
+
+  return {
+    event_id: eventData.event_id,
+    visitor_id: eventData.visitor_id,
+    session_id: eventData.session_id,
+    event_type: eventData.event_type,
+    utm_source: eventData.utm_params?.source,
+    utm_medium: eventData.utm_params?.medium,
+    utm_campaign: eventData.utm_params?.campaign,
+    utm_content: eventData.utm_params?.content,
+    utm_term: eventData.utm_params?.term,
+    fbclid: eventData.click_ids?.fbclid,
+    gclid: eventData.click_ids?.gclid,
+    ttclid: eventData.click_ids?.ttclid,
+    msclkid: eventData.click_ids?.msclkid,
+    click_ids: sanitizeClickIds(eventData.click_ids),
+    source: traffic.source,
+    medium: traffic.medium,
+    channel: traffic.channel,
+    campaign: utm?.campaign,
+    page_url: eventData.page_url,
+    referrer: eventData.referrer,
+    email_hash: eventData.email_hash,
+    engaged_time_ms: eventData.engaged_time_ms,
+    consent_state: eventData.consent || null,
+    properties: eventData.properties && Object.keys(eventData.properties).length > 0
+      ? eventData.properties
+      : null,
+    user_id: eventData.user_id,
+    phone_hash: eventData.phone_hash,
+    traits: eventData.traits && Object.keys(eventData.traits).length > 0
+      ? eventData.traits
+      : null,
+    ecommerce: eventData.ecommerce || null,
+    timestamp: eventData.timestamp,
+    client_id: clientId
+  };
+}
+
+/**
+ * Returns the client's active conversion triggers for the tracker to
+ * evaluate in the browser. Cached briefly, so dashboard edits show up
+ * within a few minutes.
+ */
+async function handleTriggers(req: Request): Promise<Response> {
+  const clientId = new URL(req.url).searchParams.get("client_id");
+  if (!clientId) {
+    return new Response(JSON.stringify({ error: "Client ID is required" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  const { data: triggers, error } = await supabaseClient
+    .from("conversion_triggers")
+    .select("id, trigger_type, match_value, conversion_type, value, currency")
+    .eq("client_id", clientId)
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error loading conversion triggers:", error);
+    return new Response(JSON.stringify({ error: "Failed to load conversion triggers" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({ triggers: triggers || [] }), {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Cache-Control": "public, max-age=300"
+    }
+  });
+}
+
+/**
+ * Drops the ecommerce mappings whose event type is neither a built-in
+ * ecommerce type nor one of the client's active event definitions, since
+ * every event they produce would be rejected.
+ */
+async function keepDefinedEcommerceTypes(clientId: string, config: RemoteTrackerConfig): Promise<RemoteTrackerConfig> {
+  if (!config.ecommerceMapping) return config;
+
+  const mappings = Object.entries(config.ecommerceMapping);
+  const customTypes = [...new Set(mappings.flatMap(([, mapping]) =>
+    mapping && !ECOMMERCE_EVENT_TYPES.includes(mapping.eventType) ? [mapping.eventType] : []
+  ))];
+
+  let definedTypes = new Set<string>();
+  if (customTypes.length > 0) {
+    const { data, error } = await supabaseClient
+      .from("event_definitions")
+      .select("name")
+      .eq("client_id", clientId)
+      .in("name", customTypes)
+      .eq("is_active", true);
+
+    if (error) throw error;
+    definedTypes = new Set<string>((data || []).map(definition => definition.name));
+  }
+
+  const filtered: RemoteTrackerConfig = {
+    ...config,
+    ecommerceMapping: Object.fromEntries(mappings.filter(([, mapping]) =>
+      !mapping || ECOMMERCE_EVENT_TYPES.includes(mapping.eventType) || definedTypes.has(mapping.eventType)
+    ))
+  };
+  if (Object.keys(filtered.ecommerceMapping!).length === 0) {
+    delete filtered.ecommerceMapping;
+  }
+  return filtered;
+}
+
+/**
+ * Returns the client's dashboard tracker settings together with its active
+ * conversion triggers, read by the tracker once at startup. Browsers keep
+ * it for a minute and the edge for five, so the request rarely reaches the
+ * database and dashboard edits still show up within a few minutes.
+ */
+async function handleConfig(req: Request): Promise<Response> {
+  const clientId = new URL(req.url).searchParams.get("client_id");
+  if (!clientId) {
+    return new Response(JSON.stringify({ error: "Client ID is required" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  const [clientResult, triggersResult] = await Promise.all([
+    supabaseClient
+      .from("clients")
+      .select("tracker_config")
+      .eq("id", clientId)
+      .maybeSingle(),
+    supabaseClient
+      .from("conversion_triggers")
+      .select("id, trigger_type, match_value, conversion_type, value, currency")
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+  ]);
+
+  if (clientResult.error || triggersResult.error) {
+    console.error("Error loading tracker config:", clientResult.error || triggersResult.error);
+    return new Response(JSON.stringify({ error: "Failed to load tracker config" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  if (!clientResult.data) {
+    return new Response(JSON.stringify({ error: "Unknown client" }), {
+      status: 404,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  let config: RemoteTrackerConfig;
+  try {
+    config = await keepDefinedEcommerceTypes(clientId, sanitizeTrackerConfig(clientResult.data.tracker_config));
+  } catch (error) {
+    console.error("Error loading event definitions for the ecommerce mapping:", error);
+    return new Response(JSON.stringify({ error: "Failed to load tracker config" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    });
+  }
+
+  return new Response(JSON.stringify({
+    config,
+    triggers: triggersResult.data || []
+  }), {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Cache-Control": "public, max-age=60, s-maxage=300"
+    }
+  });
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers }
+  });
+}
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks event types against the client's event definitions. Built-in
+ * tracker events are always accepted; custom events need an active
+ * definition, and their properties must match the defined types.
+ * Returns the issues of each event, in order.
+ */
+async function validateEventTypes(clientId: string, events: EventPayload[]): Promise<FieldIssue[][]> {
+  const customTypes = [...new Set(events.map(event => event.event_type))]
+    .filter(type => !BUILT_IN_EVENT_TYPES.includes(type));
+  if (customTypes.length === 0) return events.map(() => []);
+
+  const { data, error } = await supabaseClient
+    .from("event_definitions")
+    .select("name, property_types")
+    .eq("client_id", clientId)
+    .in("name", customTypes)
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error loading event definitions:", error);
+    throw error;
+  }
+
+  const definitions = new Map<string, Record<string, string>>(
+    (data || []).map(definition => [definition.name, definition.property_types || {}])
+  );
+  return events.map(event => {
+    if (BUILT_IN_EVENT_TYPES.includes(event.event_type)) return [];
+
+    const propertyTypes = definitions.get(event.event_type);
+    if (!propertyTypes) {
+      return [{ field: "event_type", message: `Unknown event type: ${event.event_type}` }];
+    }
+    return Object.entries(event.properties || {})
+      .filter(([key, value]) => propertyTypes[key] && value !== null && typeof value !== propertyTypes[key])
+      .map(([key]) => ({ field: `properties.${key}`, message: `Must be a ${propertyTypes[key]}` }));
+  });
+}
+
+// Outcome of storing one event or conversion. A duplicate carries the id
+// of the row stored the first time its key was seen
+interface StoredRecord {
+  id: string;
+  duplicate: boolean;
+}
+
+/**
+ * Inserts rows for one client, skipping those whose idempotency key
+ * (`event_id` or `order_id`) the client already used. Row ids are assigned
+ * here so each row can be matched to its outcome. Rows without a key are
+ * always inserted.
+ */
+async function insertIdempotent(
+  table: "events" | "conversions",
+  keyColumn: "event_id" | "order_id",
+  clientId: string,
+  rows: Record<string, unknown>[]
+): Promise<StoredRecord[]> {
+  const withIds = rows.map(row => ({ ...row, id: crypto.randomUUID() }));
+  const { data, error } = await supabaseClient
+    .from(table)
+    .upsert(withIds, { onConflict: `client_id,${keyColumn}`, ignoreDuplicates: true })
+    .select("id");
+
+  if (error || !data) {
+    throw error;
+  }
+
+  const inserted = new Set(data.map(row => row.id));
+  const skippedKeys = withIds
+    .filter(row => !inserted.has(row.id))
+    .map(row => row[keyColumn] as string);
+  const originals = new Map<string, string>();
+
+  if (skippedKeys.length > 0) {
+    const { data: existing, error: lookupError } = await supabaseClient
+      .from(table)
+      .select(`id, key:${keyColumn}`)
+      .eq("client_id", clientId)
+      .in(keyColumn, [...new Set(skippedKeys)]);
+
+    if (lookupError) {
+      throw lookupError;
+    }
+    (existing || []).forEach(row => originals.set(row.key, row.id));
+  }
+
+  return withIds.map(row => {
+    if (inserted.has(row.id)) return { id: row.id, duplicate: false };
+
+    const originalId = originals.get(row[keyColumn] as string);
+    if (!originalId) {
+      throw new Error(`Row skipped without a matching ${keyColumn}`);
+    }
+    return { id: originalId, duplicate: true };
+  });
+}
+
+/**
+ * Stores validated events for one client: resolves merged visitor ids,
+ * upserts the visitors, and inserts the events with their traffic
+ * classification. `extra` is added to every row. Returns each event's
+ * outcome, in order, and throws when the events cannot be inserted.
+ */
+async function storeEvents(clientId: string, events: EventPayload[], extra: Record<string, unknown> = {}): Promise<StoredRecord[]> {
+  const aliases = await resolveVisitorAliases(clientId, events.map(event => event.visitor_id));
+  const resolved = events.map(event => ({
+    ...event,
+    visitor_id: aliases.get(event.visitor_id) || event.visitor_id
+  }));
+
+  // Ensure visitor records exist, keeping the latest email hash per visitor
+  const visitors = new Map<string, { visitor_id: string; email_hash?: string; client_id: string; last_seen_at: string }>();
+  resolved.forEach(event => {
+    visitors.set(event.visitor_id, {
+      visitor_id: event.visitor_id,
+      email_hash: event.email_hash || visitors.get(event.visitor_id)?.email_hash,
+      client_id: clientId,
+      last_seen_at: new Date().toISOString()
+    });
+  });
+
+  const { error: visitorError } = await supabaseClient
+    .from("visitors")
+    .upsert([...visitors.values()], {
+      onConflict: "visitor_id",
+      ignoreDuplicates: false
+    });
+
+  if (visitorError) {
+    // Events are stored anyway
+    console.error("Error upserting visitors:", visitorError);
+  }
+
+  const channelRules = await loadChannelRules(clientId);
+  const normalizedUtm = await normalizeUtmParams(clientId, resolved.map(event => event.utm_params));
+  return await insertIdempotent("events", "event_id", clientId, resolved.map((event, index) => ({
+    ...buildEventRecord(event, clientId, channelRules, normalizedUtm[index]),
+    ...extra
+  })));
+}
+
+/**
+ * Stores validated conversions for one client and attributes the new
+ * ones; a conversion whose `order_id` (or, without one, `transaction_id`)
+ * was already stored is neither inserted nor attributed again. Returns
+ * each conversion's outcome, in order. A conversion whose attribution
+ * fails stays stored, so only a failed insert throws.
+ */
+async function storeConversions(clientId: string, conversions: ConversionPayload[]): Promise<StoredRecord[]> {
+  const rows = conversions.map(conversion => ({
+    visitor_id: conversion.visitor_id,
+    client_id: clientId,
+    conversion_type: conversion.conversion_type,
+    value: conversion.value,
+    currency: conversion.currency,
+    transaction_id: conversion.transaction_id,
+    order_id: conversion.order_id ?? conversion.transaction_id,
+    email_hash: conversion.email_hash,
+    timestamp: conversion.timestamp
+  }));
+  const records = await insertIdempotent("conversions", "order_id", clientId, rows);
+
+  await Promise.all(records.map((record, index) => {
+    if (record.duplicate) return;
+    return attributeConversion(supabaseClient, {
+      ...rows[index],
+      id: record.id,
+      user_id: conversions[index].user_id
+    }).catch(attributionError => {
+      console.error("Error attributing conversion:", record.id, attributionError);
+    });
+  }));
+  return records;
+}
+
+async function findClient(clientId: string): Promise<ClientRecord | null> {
+  const { data, error } = await supabaseClient
+    .from("clients")
+    .select("id, domain")
+    .eq("id", clientId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading client:", error);
+    throw error;
+  }
+  return data;
+}
+
+type SenderCheck =
+  | { success: true; allows: (client: ClientRecord) => boolean }
+  | { success: false; response: Response };
+
+const FORBIDDEN_CLIENT_ISSUE: FieldIssue = {
+  field: "client_id",
+  message: "The request's origin or API key does not belong to this client"
+};
+
+/**
+ * Works out which clients the request may send data for. With an
+ * `x-api-key`, that is the key's client, and the key needs the ingest
+ * scope. Without one the request is taken to come from the tracker in a
+ * browser, and may only send for clients whose registered domain matches
+ * its Origin.
+ */
+async function authorizeSender(req: Request): Promise<SenderCheck> {
+  if (req.headers.has("x-api-key")) {
+    const auth = await authenticateApiKey(supabaseClient, req, "ingest");
+    if (!auth.success) {
+      return { success: false, response: jsonResponse({ error: auth.error }, auth.status) };
+    }
+    return { success: true, allows: client => client.id === auth.clientId };
+  }
+
+  const origin = req.headers.get("Origin");
+  return { success: true, allows: client => isAllowedOrigin(origin, client.domain) };
+}
+
+/**
+ * `POST /v1/events`: validates and stores a single event. Errors come back
+ * as `{ error, issues }`, where each issue names the offending field. An
+ * event whose `event_id` was already stored is not stored again; the
+ * response carries the original's id with `duplicate: true`. Only the
+ * client's own domain or API keys may send (see authorizeSender).
+ */
+async function handleEvent(req: Request, trace: RequestTrace): Promise<Response> {
+  const sender = await authorizeSender(req);
+  if (!sender.success) return sender.response;
+
+  const body = await readJson(req);
+  trace.log("request_parsed", {
+    event_data: body,
+    headers: Object.fromEntries(req.headers.entries())
+  });
+  if (body === undefined) {
+    return jsonResponse({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const parsed = parseEventPayload(body);
+  if (!parsed.success) {
+    trace.log("validation_error", { issues: parsed.issues });
+    return jsonResponse({ error: "Invalid event", issues: parsed.issues }, 400);
+  }
+  const event = parsed.data;
+
+  const client = await findClient(event.client_id);
+  trace.log("client_lookup", { found: !!client });
+  if (!client) {
+    return jsonResponse({
+      error: "Invalid client ID",
+      issues: [{ field: "client_id", message: "Unknown client" }]
+    }, 400);
+  }
+  if (!sender.allows(client)) {
+    return jsonResponse({ error: "Not allowed to send for this client", issues: [FORBIDDEN_CLIENT_ISSUE] }, 403);
+  }
+
+  const [typeIssues] = await validateEventTypes(client.id, [event]);
+  if (typeIssues.length > 0) {
+    return jsonResponse({ error: "Invalid event", issues: typeIssues }, 400);
+  }
+
+  let stored: StoredRecord;
+  try {
+    [stored] = await storeEvents(client.id, [event], {
+      debug_log: trace.entries,
+      request_headers: Object.fromEntries(req.headers.entries()),
+      processing_time: Math.round(performance.now() - trace.startTime)
+    });
+  } catch (error) {
+    trace.log("event_insert_error", { error });
+    console.error("Error inserting event:", error);
+    return jsonResponse({ error: "Failed to store event" }, 500);
+  }
+
+  trace.log("event_complete", { success: true, duplicate: stored.duplicate });
+  return jsonResponse({ success: true, id: stored.id, duplicate: stored.duplicate }, 200);
+}
+
+/**
+ * `POST /batch`, used by tracker releases before /v1/batch: up to
+ * MAX_BATCH_SIZE events of one client as `{ events: [...] }` or a bare
+ * array. The batch is rejected as a whole when any event is invalid.
+ */
+async function handleBatch(req: Request): Promise<Response> {
+  const sender = await authorizeSender(req);
+  if (!sender.success) return sender.response;
+
+  const body = await readJson(req) as { events?: unknown } | unknown[] | undefined;
+  const items = Array.isArray(body) ? body : body?.events;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return jsonResponse({ error: "Batch must contain at least one event" }, 400);
+  }
+
+  if (items.length > MAX_BATCH_SIZE) {
+    return jsonResponse({ error: `Batch cannot contain more than ${MAX_BATCH_SIZE} events` }, 413);
+  }
+
+  const events: EventPayload[] = [];
+  const issues: FieldIssue[] = [];
+  items.forEach((item, index) => {
+    const parsed = parseEventPayload(item, ["events", index]);
+    if (parsed.success) {
+      events.push(parsed.data);
+    } else {
+      issues.push(...parsed.issues);
+    }
+  });
+  if (issues.length > 0) {
+    return jsonResponse({ error: "Invalid events", issues }, 400);
+  }
+
+  const clientIds = [...new Set(events.map(event => event.client_id))];
+  if (clientIds.length !== 1) {
+    return jsonResponse({ error: "All events in a batch must share one client ID" }, 400);
+  }
+
+  const client = await findClient(clientIds[0]);
+  if (!client) {
+    return jsonResponse({
+      error: "Invalid client ID",
+      issues: [{ field: "events.0.client_id", message: "Unknown client" }]
+    }, 400);
+  }
+  if (!sender.allows(client)) {
+    return jsonResponse({
+      error: "Not allowed to send for this client",
+      issues: [{ ...FORBIDDEN_CLIENT_ISSUE, field: "events.0.client_id" }]
+    }, 403);
+  }
+
+  const typeIssues = (await validateEventTypes(client.id, events)).flatMap((eventIssues, index) =>
+    eventIssues.map(issue => ({ ...issue, field: `events.${index}.${issue.field}` }))
+  );
+  if (typeIssues.length > 0) {
+    return jsonResponse({ error: "Invalid events", issues: typeIssues }, 400);
+  }
+
+  try {
+    await storeEvents(client.id, events);
+  } catch (error) {
+    console.error("Error inserting event batch:", error);
+    return jsonResponse({ error: "Failed to store events" }, 500);
+  }
+
+  return jsonResponse({ success: true, count: events.length }, 200);
+}
+
+type BatchItemResult =
+  | { status: "accepted"; id: string; duplicate: boolean }
+  | { status: "rejected"; error: string; issues?: FieldIssue[] }
+  | { status: "failed"; error: string };
+
+/**
+ * `POST /v1/batch`: up to MAX_BATCH_SIZE events and conversions as
+ * `{ items: [...] }`, each with `type: "event"` (the default) or
+ * `type: "conversion"`. Items are validated independently and stored in
+ * bulk per client. The response lists each item's outcome, in order:
+ * `accepted` with the row id, `rejected` when the item is invalid and
+ * must not be retried, or `failed` when it could not be stored and may be.
+ * An accepted item whose `event_id` or `order_id` was seen before is
+ * flagged `duplicate` and carries the id of the original row. Items for a
+ * client the request may not send for are rejected (see authorizeSender).
+ */
+async function handleBatchV1(req: Request): Promise<Response> {
+  const sender = await authorizeSender(req);
+  if (!sender.success) return sender.response;
+
+  const body = await readJson(req) as { items?: unknown } | undefined;
+  const items = body?.items;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return jsonResponse({ error: "Batch must contain at least one item" }, 400);
+  }
+
+  if (items.length > MAX_BATCH_SIZE) {
+    return jsonResponse({ error: `Batch cannot contain more than ${MAX_BATCH_SIZE} items` }, 413);
+  }
+
+  const results: BatchItemResult[] = new Array(items.length);
+  const events: { index: number; payload: EventPayload }[] = [];
+  const conversions: { index: number; payload: ConversionPayload }[] = [];
+
+  items.forEach((item, index) => {
+    const type = (item as { type?: unknown } | null)?.type ?? "event";
+    if (type === "event") {
+      const parsed = parseEventPayload(item);
+      if (parsed.success) {
+        events.push({ index, payload: parsed.data });
+      } else {
+        results[index] = { status: "rejected", error: "Invalid event", issues: parsed.issues };
+      }
+    } else if (type === "conversion") {
+      const parsed = parseConversionPayload(item);
+      if (parsed.success) {
+        conversions.push({ index, payload: parsed.data });
+      } else {
+        results[index] = { status: "rejected", error: "Invalid conversion", issues: parsed.issues };
+      }
+    } else {
+      results[index] = {
+        status: "rejected",
+        error: "Invalid item",
+        issues: [{ field: "type", message: "Must be \"event\" or \"conversion\"" }]
+      };
+    }
+  });
+
+  // One lookup for every client named in the batch
+  const clientIds = [...new Set([...events, ...conversions].map(item => item.payload.client_id))];
+  const { data: clients, error: clientError } = clientIds.length > 0
+    ? await supabaseClient.from("clients").select("id, domain").in("id", clientIds)
+    : { data: [], error: null };
+
+  if (clientError) {
+    console.error("Error loading clients:", clientError);
+    return jsonResponse({ error: "Failed to load clients" }, 500);
+  }
+
+  const knownClients = new Map<string, ClientRecord>((clients || []).map(client => [client.id, client]));
+  const rejectInvalidClient = ({ index, payload }: { index: number; payload: { client_id: string } }) => {
+    const client = knownClients.get(payload.client_id);
+    if (!client) {
+      results[index] = {
+        status: "rejected",
+        error: "Invalid client ID",
+        issues: [{ field: "client_id", message: "Unknown client" }]
+      };
+      return false;
+    }
+    if (!sender.allows(client)) {
+      results[index] = { status: "rejected", error: "Not allowed to send for this client", issues: [FORBIDDEN_CLIENT_ISSUE] };
+      return false;
+    }
+    return true;
+  };
+  const validEvents = events.filter(rejectInvalidClient);
+  const validConversions = conversions.filter(rejectInvalidClient);
+
+  for (const clientId of knownClients.keys()) {
+    const clientEvents = validEvents.filter(item => item.payload.client_id === clientId);
+    if (clientEvents.length > 0) {
+      let accepted: typeof clientEvents = [];
+      try {
+        const typeIssues = await validateEventTypes(clientId, clientEvents.map(item => item.payload));
+        accepted = clientEvents.filter((item, i) => {
+          if (typeIssues[i].length === 0) return true;
+          results[item.index] = { status: "rejected", error: "Invalid event", issues: typeIssues[i] };
+          return false;
+        });
+      } catch (error) {
+        // The definitions may load on a retry, so the events are not rejected
+        console.error("Error validating batch event types:", error);
+        clientEvents.forEach(item => {
+          results[item.index] = { status: "failed", error: "Failed to validate event" };
+        });
+      }
+
+      if (accepted.length > 0) {
+        try {
+          const records = await storeEvents(clientId, accepted.map(item => item.payload));
+          accepted.forEach((item, i) => {
+            results[item.index] = { status: "accepted", ...records[i] };
+          });
+        } catch (error) {
+          console.error("Error inserting batch events:", error);
+          accepted.forEach(item => {
+            results[item.index] = { status: "failed", error: "Failed to store event" };
+          });
+        }
+      }
+    }
+
+    const clientConversions = validConversions.filter(item => item.payload.client_id === clientId);
+    if (clientConversions.length > 0) {
+      try {
+        const records = await storeConversions(clientId, clientConversions.map(item => item.payload));
+        clientConversions.forEach((item, i) => {
+          results[item.index] = { status: "accepted", ...records[i] };
+        });
+      } catch (error) {
+        console.error("Error inserting batch conversions:", error);
+        clientConversions.forEach(item => {
+          results[item.index] = { status: "failed", error: "Failed to store conversion" };
+        });
+      }
+    }
+  }
+
+  const count = (status: BatchItemResult["status"]) => results.filter(result => result.status === status).length;
+  return jsonResponse({
+    results,
+    accepted: count("accepted"),
+    duplicates: results.filter(result => result.status === "accepted" && result.duplicate).length,
+    rejected: count("rejected"),
+    failed: count("failed")
+  }, 200);
+}
+
+/**
+ * Marks a response from a pre-versioning route, pointing callers at the
+ * `/v1` route that replaces it.
+ */
+function deprecated(response: Response, successor: string): Response {
+  response.headers.set("Deprecation", "true");
+  response.headers.set("Link", `<${successor}>; rel="successor-version"`);
+  return response;
+}
+
 serve(async (req: Request) => {
   const startTime = performance.now();
   const debugLog: DebugLog[] = [];
@@ -66,12 +1026,23 @@ serve(async (req: Request) => {
   try {
     addLog('function_start', { method: req.method });
     
+    const isVisitorRequest = new URL(req.url).pathname.endsWith("/visitor");
+
+    if (isVisitorRequest && ["OPTIONS", "POST", "DELETE"].includes(req.method)) {
+      return await handleVisitor(req);
+    }
+
     // Handle CORS preflight requests
     if (req.method === "OPTIONS") {
-      return new Response(null, {
-        status: 204,
-        headers: corsHeaders
-      });
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+
+    if (req.method === "GET" && new URL(req.url).pathname.endsWith("/triggers")) {
+      return await handleTriggers(req);
+    }
+
+    if (req.method === "GET" && new URL(req.url).pathname.endsWith("/config")) {
+      return await handleConfig(req);
     }
 
     // Only accept POST requests
@@ -86,139 +1057,25 @@ serve(async (req: Request) => {
       });
     }
 
-    // Parse request body
-    const eventData: EventData = await req.json();
-    addLog('request_parsed', { 
-      event_data: eventData,
-      headers: Object.fromEntries(req.headers.entries())
-    });
-    
-    // Validate client ID
-    if (!eventData.client_id) {
-      addLog('validation_error', { error: 'Missing client ID' });
-      return new Response(JSON.stringify({ error: "Client ID is required" }), {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
-    }
-
-    // Validate client exists
-    const { data: clientData, error: clientError } = await supabaseClient
-      .from("clients")
-      .select("id, domain")
-      .eq("id", eventData.client_id)
-      .single();
-
-    addLog('client_lookup', { 
-      success: !clientError,
-      data: clientData,
-      error: clientError
-    });
+    const pathname = new URL(req.url).pathname;
+    const trace: RequestTrace = { log: addLog, entries: debugLog, startTime };
 
-    if (clientError || !clientData) {
-      return new Response(JSON.stringify({ error: "Invalid client ID" }), {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
+    if (pathname.endsWith(`/${API_VERSION}/events`)) {
+      return await handleEvent(req, trace);
     }
-    
-    // Add client ID to event data
-    eventData.client_id = clientData.id;
-
-    // Ensure visitor record exists
-    addLog('visitor_upsert_start', {
-      visitor_id: eventData.visitor_id
-    });
-
-    const { error: visitorError } = await supabaseClient
-      .from("visitors")
-      .upsert({
-        visitor_id: eventData.visitor_id,
-        email_hash: eventData.email_hash,
-        client_id: clientData.id,
-        last_seen_at: new Date().toISOString()
-      }, {
-        onConflict: "visitor_id",
-        ignoreDuplicates: false
-      });
-
-    if (visitorError) {
-      addLog('visitor_upsert_error', { error: visitorError });
-    } else {
-      addLog('visitor_upsert_success', { visitor_id: eventData.visitor_id });
-      // Continue processing - we'll log the event anyway
-    }
-
-    // Prepare event record
-    const eventRecord = {
-      visitor_id: eventData.visitor_id,
-      event_type: eventData.event_type,
-      utm_source: eventData.utm_params?.source,
-      utm_medium: eventData.utm_params?.medium,
-      utm_campaign: eventData.utm_params?.campaign,
-      utm_content: eventData.utm_params?.content,
-      utm_term: eventData.utm_params?.term,
-      fbclid: eventData.click_ids?.fbclid,
-      gclid: eventData.click_ids?.gclid,
-      ttclid: eventData.click_ids?.ttclid,
-      msclkid: eventData.click_ids?.msclkid,
-      page_url: eventData.page_url,
-      referrer: eventData.referrer,
-      email_hash: eventData.email_hash,
-      timestamp: new Date(eventData.timestamp).toISOString(),
-      client_id: clientData.id,
-      debug_log: debugLog,
-      request_headers: Object.fromEntries(req.headers.entries()),
-      processing_time: Math.round(performance.now() - startTime)
-    };
 
-    addLog('event_record_prepared', { record: eventRecord });
-
-    // Insert event
-    const { error: eventError } = await supabaseClient
-      .from("events")
-      .insert(eventRecord);
-
-    if (eventError) {
-      addLog('event_insert_error', { 
-        error: eventError,
-        code: eventError.code,
-        message: eventError.message
-      });
-      return new Response(JSON.stringify({ error: "Failed to store event" }), {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json"
-        }
-      });
+    if (pathname.endsWith(`/${API_VERSION}/batch`)) {
+      return await handleBatchV1(req);
     }
 
-    // If this is a conversion event, process it separately
-    if (eventData.event_type === "conversion") {
-      addLog('conversion_processing', { type: 'conversion' });
-      // Additional logic for conversion handling would go here
-      // This would typically trigger the attribution engine
-    }
+    // The unversioned routes predate /v1 and are kept for older trackers
+    const basePath = pathname.match(/^.*\/event-capture/)?.[0] || "";
 
-    addLog('event_complete', { 
-      success: true,
-      duration_ms: Math.round(performance.now() - startTime)
-    });
+    if (pathname.endsWith("/batch")) {
+      return deprecated(await handleBatch(req), `${basePath}/${API_VERSION}/batch`);
+    }
 
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "application/json"
-      }
-    });
+    return deprecated(await handleEvent(req, trace), `${basePath}/${API_VERSION}/events`);
   } catch (error) {
     addLog('unexpected_error', { error: String(error) });
     return new Response(JSON.stringify({ error: "Internal server error" }), {
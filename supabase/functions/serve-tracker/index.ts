@@ -1,36 +1,156 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.3";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type"
+  "Access-Control-Allow-Headers": "Content-Type, If-None-Match",
+  "Access-Control-Expose-Headers": "ETag"
 };
 
+// Written by scripts/publish-tracker.js; the files of each version live in
+// ./versions/<version>/
+interface TrackerManifest {
+  latest: string | null;
+  versions: Record<string, {
+    released_at: string;
+    files: Record<string, string>;
+  }>;
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const TRACKER_FILE = /^tracker(-[a-z]+)?\.js$/;
+const IMMUTABLE_CACHE = "public, max-age=31536000, immutable";
+const CHANNEL_CACHE = "public, max-age=300";
+
+const supabaseClient = createClient(
+  Deno.env.get("SUPABASE_URL") || "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+);
+
+let manifestPromise: Promise<TrackerManifest> | null = null;
+
+/**
+ * Reads the manifest once per instance. Without one (nothing published
+ * yet) the legacy ./tracker.js is served.
+ */
+function loadManifest(): Promise<TrackerManifest> {
+  if (!manifestPromise) {
+    manifestPromise = Deno.readTextFile("./manifest.json")
+      .then(text => JSON.parse(text) as TrackerManifest)
+      .catch(() => ({ latest: null, versions: {} }));
+  }
+  return manifestPromise;
+}
+
+async function getPinnedVersion(clientId: string | null): Promise<string | null> {
+  if (!clientId) return null;
+
+  const { data, error } = await supabaseClient
+    .from("clients")
+    .select("tracker_version")
+    .eq("id", clientId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading pinned tracker version:", error);
+    return null;
+  }
+  return data?.tracker_version || null;
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers }
+  });
+}
+
+async function serveFile(req: Request, path: string, cacheControl: string, integrity?: string): Promise<Response> {
+  const etag = integrity ? `"${integrity}"` : undefined;
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    "Content-Type": "application/javascript",
+    "Cache-Control": cacheControl
+  };
+  if (etag) {
+    headers["ETag"] = etag;
+    if (req.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+  }
+
+  try {
+    return new Response(await Deno.readTextFile(path), { headers });
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return jsonResponse({ error: "Tracker file not found" }, 404);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Routes:
+ * - `/versions`: the manifest, with the SRI hash of every published file
+ * - `/v/<version>/<file>`: a published version, cached as immutable
+ * - `/v/latest/<file>`: the latest version
+ * - anything else: the core (or the named `tracker-<name>.js`) of the
+ *   version pinned on the `client_id` query parameter's client, or the
+ *   latest version
+ */
 serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders, status: 204 });
   }
 
   if (req.method !== "GET") {
-    return new Response(JSON.stringify({ error: "Method not allowed" }), {
-      status: 405,
-      headers: { ...corsHeaders, "Content-Type": "application/json" }
-    });
+    return jsonResponse({ error: "Method not allowed" }, 405);
   }
 
   try {
-    const trackerCode = await Deno.readTextFile("./tracker.js");
-    return new Response(trackerCode, {
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "application/javascript",
-        "Cache-Control": "public, max-age=3600"
+    const url = new URL(req.url);
+    const segments = url.pathname.split("/").filter(Boolean);
+    const manifest = await loadManifest();
+
+    if (segments[segments.length - 1] === "versions") {
+      return jsonResponse(manifest, 200, { "Cache-Control": CHANNEL_CACHE });
+    }
+
+    const versionIndex = segments.lastIndexOf("v");
+    if (versionIndex !== -1 && segments.length === versionIndex + 3) {
+      const [requested, file] = segments.slice(versionIndex + 1);
+      const version = requested === "latest" ? manifest.latest : requested;
+
+      if (!version || !VERSION_PATTERN.test(version) || !manifest.versions[version]) {
+        return jsonResponse({ error: "Unknown tracker version" }, 404);
+      }
+      const integrity = manifest.versions[version].files[file];
+      if (!TRACKER_FILE.test(file) || !integrity) {
+        return jsonResponse({ error: "Tracker file not found" }, 404);
       }
-    });
+
+      return serveFile(
+        req,
+        `./versions/${version}/${file}`,
+        requested === "latest" ? CHANNEL_CACHE : IMMUTABLE_CACHE,
+        integrity
+      );
+    }
+
+    const lastSegment = segments[segments.length - 1] || "";
+    const file = TRACKER_FILE.test(lastSegment) ? lastSegment : "tracker.js";
+    const pinned = await getPinnedVersion(url.searchParams.get("client_id"));
+    const version = pinned && manifest.versions[pinned] ? pinned : manifest.latest;
+
+    if (!version) {
+      return serveFile(req, `./${file}`, CHANNEL_CACHE);
+    }
+    return serveFile(req, `./versions/${version}/${file}`, CHANNEL_CACHE, manifest.versions[version].files[file]);
   } catch (error) {
     console.error('Error serving tracker:', error);
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: "Failed to serve tracker",
         details: error.message
       }),
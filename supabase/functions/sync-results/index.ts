@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.39.3";
+import { authenticateApiKey } from "../_shared/auth.ts";
 
 // Create Supabase client
 const supabaseClient = createClient(
@@ -24,11 +25,15 @@ serve(async (req: Request) => {
       });
     }
 
-    // Get client API key from headers
-    const apiKey = req.headers.get("x-api-key");
-    if (!apiKey) {
-      return new Response(JSON.stringify({ error: "API key is required" }), {
-        status: 401,
+    // GET /results returns the results to the caller instead of pushing
+    // them to the webhook, and only needs a read-only key
+    const isReadRequest = req.method === "GET" && new URL(req.url).pathname.endsWith("/results");
+
+    // Validate API key and get client ID and webhook URL
+    const auth = await authenticateApiKey(supabaseClient, req, isReadRequest ? "read" : "sync");
+    if (!auth.success) {
+      return new Response(JSON.stringify({ error: auth.error }), {
+        status: auth.status,
         headers: {
           ...corsHeaders,
           "Content-Type": "application/json"
@@ -36,11 +41,10 @@ serve(async (req: Request) => {
       });
     }
 
-    // Validate API key and get client ID and webhook URL
     const { data: clientData, error: clientError } = await supabaseClient
       .from("clients")
       .select("id, webhook_url")
-      .eq("api_key", apiKey)
+      .eq("id", auth.clientId)
       .single();
 
     if (clientError || !clientData) {
@@ -54,7 +58,7 @@ serve(async (req: Request) => {
     }
 
     // Check if we have a webhook URL configured
-    if (!clientData.webhook_url) {
+    if (!isReadRequest && !clientData.webhook_url) {
       return new Response(JSON.stringify({ error: "No webhook URL configured" }), {
         status: 400,
         headers: {
@@ -76,6 +80,7 @@ serve(async (req: Request) => {
           COALESCE(ar.source, 'direct') as source,
           COALESCE(ar.campaign, 'none') as campaign,
           COALESCE(ar.ad_id, 'none') as ad_id,
+          COALESCE(ar.ad_platform, 'none') as ad_platform,
           SUM(ar.credit) as conversions
         FROM
           attribution_results ar          
@@ -84,7 +89,7 @@ serve(async (req: Request) => {
           AND ar.attribution_model = $2
           AND ar.timestamp >= $3
         GROUP BY
-          source, campaign, ad_id
+          source, campaign, ad_id, ad_platform
       )
       SELECT * FROM source_totals
       ORDER BY conversions DESC
@@ -113,10 +118,21 @@ serve(async (req: Request) => {
         source: row.source,
         campaign: row.campaign === 'none' ? null : row.campaign,
         ad_id: row.ad_id === 'none' ? null : row.ad_id,
+        ad_platform: row.ad_platform === 'none' ? null : row.ad_platform,
         conversions: parseFloat(row.conversions)
       }))
     };
 
+    if (isReadRequest) {
+      return new Response(JSON.stringify({ ...growerPayload, model, since }), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json"
+        }
+      });
+    }
+
     // Send results to client webhook
     try {
       const webhookResponse = await fetch(clientData.webhook_url, {
@@ -0,0 +1,128 @@
+/*
+  # Add sessions
+
+  1. New Tables
+    - `sessions`: One row per visitor session with start/end, landing page,
+      entry source, page view count, engaged time and bounce flag
+
+  2. Changes
+    - Add `session_id` and `engaged_time_ms` columns to `events`
+    - Add `update_session` trigger that maintains `sessions` from inserted events
+
+  3. Notes
+    - A session counts as engaged (not a bounce) once it has 2+ page views,
+      10+ seconds of engaged time, or a conversion
+*/
+
+-- Add session columns to events
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS session_id text,
+ADD COLUMN IF NOT EXISTS engaged_time_ms integer;
+
+CREATE INDEX IF NOT EXISTS idx_events_session_id ON events(session_id);
+
+-- Create sessions table
+CREATE TABLE IF NOT EXISTS sessions (
+  session_id text PRIMARY KEY,
+  visitor_id text REFERENCES visitors(visitor_id) NOT NULL,
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz NOT NULL,
+  landing_page text,
+  entry_source text,
+  entry_medium text,
+  entry_campaign text,
+  entry_referrer text,
+  page_views integer NOT NULL DEFAULT 0,
+  engaged_time_ms integer NOT NULL DEFAULT 0,
+  has_conversion boolean NOT NULL DEFAULT false,
+  duration_seconds integer GENERATED ALWAYS AS (EXTRACT(EPOCH FROM (ended_at - started_at))::integer) STORED,
+  is_bounce boolean GENERATED ALWAYS AS (
+    NOT (page_views >= 2 OR engaged_time_ms >= 10000 OR has_conversion)
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_client_id ON sessions(client_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_visitor_id ON sessions(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_started_at ON sessions(started_at);
+
+-- Enable RLS
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own sessions"
+  ON sessions
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Create function to maintain sessions from events
+CREATE OR REPLACE FUNCTION update_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sessions (
+    session_id,
+    visitor_id,
+    client_id,
+    started_at,
+    ended_at,
+    landing_page,
+    entry_source,
+    entry_medium,
+    entry_campaign,
+    entry_referrer,
+    page_views,
+    engaged_time_ms,
+    has_conversion
+  )
+  VALUES (
+    NEW.session_id,
+    NEW.visitor_id,
+    NEW.client_id,
+    NEW.timestamp,
+    NEW.timestamp,
+    NEW.page_url,
+    COALESCE(NEW.utm_source, substring(NEW.referrer from '^https?://([^/:]+)'), 'direct'),
+    NEW.utm_medium,
+    NEW.utm_campaign,
+    NEW.referrer,
+    CASE WHEN NEW.event_type = 'page_view' THEN 1 ELSE 0 END,
+    COALESCE(NEW.engaged_time_ms, 0),
+    NEW.event_type = 'conversion'
+  )
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    -- Events can arrive out of order from the tracker queue, so the earliest
+    -- event seen so far defines the entry fields
+    landing_page = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.landing_page ELSE sessions.landing_page END,
+    entry_source = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_source ELSE sessions.entry_source END,
+    entry_medium = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_medium ELSE sessions.entry_medium END,
+    entry_campaign = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_campaign ELSE sessions.entry_campaign END,
+    entry_referrer = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_referrer ELSE sessions.entry_referrer END,
+    started_at = LEAST(sessions.started_at, EXCLUDED.started_at),
+    ended_at = GREATEST(sessions.ended_at, EXCLUDED.ended_at),
+    page_views = sessions.page_views + EXCLUDED.page_views,
+    engaged_time_ms = sessions.engaged_time_ms + EXCLUDED.engaged_time_ms,
+    has_conversion = sessions.has_conversion OR EXCLUDED.has_conversion,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for maintaining sessions
+DROP TRIGGER IF EXISTS update_session_trigger ON events;
+CREATE TRIGGER update_session_trigger
+  AFTER INSERT ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_session();
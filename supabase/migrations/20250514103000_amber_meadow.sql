@@ -0,0 +1,16 @@
+/*
+  # Record consent state on events
+
+  1. Changes
+    - Add `consent_state` column to `events` holding the per-category consent
+      (`analytics`, `ads`, `identity`) each event was captured under, with
+      values `unknown`, `granted` or `denied`
+*/
+
+-- Add consent_state column to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS consent_state jsonb DEFAULT NULL;
+
+-- Create index for consent audits
+CREATE INDEX IF NOT EXISTS idx_events_consent_state
+ON events USING gin(consent_state);
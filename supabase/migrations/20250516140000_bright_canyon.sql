@@ -0,0 +1,41 @@
+/*
+  # Custom event properties and per-client event definitions
+
+  1. New Tables
+    - `event_definitions`: Custom event types a client accepts, with the
+      expected type of each property
+
+  2. Changes
+    - Add `properties` column to `events` for the custom event properties bag
+*/
+
+-- Add properties column to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS properties jsonb DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_properties
+ON events USING gin(properties);
+
+-- Create event_definitions table
+CREATE TABLE IF NOT EXISTS event_definitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  name text NOT NULL,
+  description text,
+  property_types jsonb DEFAULT '{}'::jsonb, -- property name => string | number | boolean
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (client_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_definitions_client_id ON event_definitions(client_id);
+
+-- Enable RLS
+ALTER TABLE event_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their event definitions"
+  ON event_definitions
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
@@ -0,0 +1,102 @@
+/*
+  # Identify calls with external user ids
+
+  1. New Tables
+    - `user_identity_map`: Links a client's own user id to every visitor id
+      it was seen with, plus the latest email/phone hashes and traits
+
+  2. Changes
+    - Add `user_id`, `phone_hash` and `traits` columns to `events`
+    - Add `user_id` and `phone_hash` columns to `visitors`
+
+  3. Functions
+    - update_user_identity_map: Maintains the user id mapping on event insert
+*/
+
+-- Add identity columns to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS user_id text,
+ADD COLUMN IF NOT EXISTS phone_hash text,
+ADD COLUMN IF NOT EXISTS traits jsonb DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_user_id ON events(client_id, user_id);
+
+-- Add identity columns to visitors table
+ALTER TABLE visitors
+ADD COLUMN IF NOT EXISTS user_id text,
+ADD COLUMN IF NOT EXISTS phone_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_visitors_user_id ON visitors(client_id, user_id);
+
+-- Create user_identity_map table
+CREATE TABLE IF NOT EXISTS user_identity_map (
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  user_id text NOT NULL,
+  visitor_ids text[] NOT NULL,
+  email_hash text,
+  phone_hash text,
+  traits jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (client_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identity_map_visitor_ids
+ON user_identity_map USING gin(visitor_ids);
+
+-- Enable RLS
+ALTER TABLE user_identity_map ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own user identity maps"
+  ON user_identity_map
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Create function to update the user identity map
+CREATE OR REPLACE FUNCTION update_user_identity_map()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO user_identity_map (client_id, user_id, visitor_ids, email_hash, phone_hash, traits)
+    VALUES (
+      NEW.client_id,
+      NEW.user_id,
+      ARRAY[NEW.visitor_id],
+      NEW.email_hash,
+      NEW.phone_hash,
+      COALESCE(NEW.traits, '{}'::jsonb)
+    )
+    ON CONFLICT (client_id, user_id) DO UPDATE
+    SET
+      visitor_ids = CASE
+        WHEN user_identity_map.visitor_ids @> ARRAY[NEW.visitor_id] THEN user_identity_map.visitor_ids
+        ELSE array_append(user_identity_map.visitor_ids, NEW.visitor_id)
+      END,
+      email_hash = COALESCE(NEW.email_hash, user_identity_map.email_hash),
+      phone_hash = COALESCE(NEW.phone_hash, user_identity_map.phone_hash),
+      traits = user_identity_map.traits || COALESCE(NEW.traits, '{}'::jsonb),
+      updated_at = now();
+
+    UPDATE visitors
+    SET user_id = NEW.user_id
+    WHERE visitor_id = NEW.visitor_id
+      AND user_id IS DISTINCT FROM NEW.user_id;
+  END IF;
+
+  IF NEW.phone_hash IS NOT NULL THEN
+    UPDATE visitors
+    SET phone_hash = NEW.phone_hash
+    WHERE visitor_id = NEW.visitor_id
+      AND phone_hash IS DISTINCT FROM NEW.phone_hash;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for updating the user identity map
+DROP TRIGGER IF EXISTS update_user_identity_map_trigger ON events;
+CREATE TRIGGER update_user_identity_map_trigger
+  AFTER INSERT ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_user_identity_map();
@@ -0,0 +1,85 @@
+/*
+  # First-party visitor cookie reconciliation
+
+  1. New Tables
+    - `visitor_aliases`: Visitor ids that were merged into another visitor,
+      so late events sent under the old id land on the surviving visitor
+
+  2. Functions
+    - merge_visitor: Moves every row of one visitor onto another and records
+      the alias
+*/
+
+-- Create visitor_aliases table
+CREATE TABLE IF NOT EXISTS visitor_aliases (
+  alias_visitor_id text PRIMARY KEY,
+  visitor_id text REFERENCES visitors(visitor_id) NOT NULL,
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visitor_aliases_visitor_id ON visitor_aliases(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_visitor_aliases_client_id ON visitor_aliases(client_id);
+
+-- Enable RLS
+ALTER TABLE visitor_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their own visitor aliases"
+  ON visitor_aliases
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Create function to merge one visitor into another
+CREATE OR REPLACE FUNCTION merge_visitor(p_client_id uuid, p_from text, p_to text)
+RETURNS void AS $$
+BEGIN
+  IF p_from = p_to THEN
+    RETURN;
+  END IF;
+
+  -- Make sure the surviving visitor exists, carrying over what we know
+  INSERT INTO visitors (visitor_id, client_id, email_hash, user_id, phone_hash, first_seen_at, last_seen_at)
+  SELECT p_to, client_id, email_hash, user_id, phone_hash, first_seen_at, last_seen_at
+  FROM visitors
+  WHERE visitor_id = p_from AND client_id = p_client_id
+  ON CONFLICT (visitor_id) DO UPDATE
+  SET
+    email_hash = COALESCE(visitors.email_hash, EXCLUDED.email_hash),
+    user_id = COALESCE(visitors.user_id, EXCLUDED.user_id),
+    phone_hash = COALESCE(visitors.phone_hash, EXCLUDED.phone_hash),
+    first_seen_at = LEAST(visitors.first_seen_at, EXCLUDED.first_seen_at),
+    last_seen_at = GREATEST(visitors.last_seen_at, EXCLUDED.last_seen_at);
+
+  INSERT INTO visitors (visitor_id, client_id)
+  VALUES (p_to, p_client_id)
+  ON CONFLICT (visitor_id) DO NOTHING;
+
+  UPDATE events SET visitor_id = p_to WHERE visitor_id = p_from AND client_id = p_client_id;
+  UPDATE sessions SET visitor_id = p_to WHERE visitor_id = p_from AND client_id = p_client_id;
+  UPDATE conversions SET visitor_id = p_to WHERE visitor_id = p_from AND client_id = p_client_id;
+  UPDATE attribution_results SET visitor_id = p_to WHERE visitor_id = p_from AND client_id = p_client_id;
+
+  UPDATE identity_map
+  SET
+    visitor_ids = array_append(array_remove(array_remove(visitor_ids, p_from), p_to), p_to),
+    updated_at = now()
+  WHERE client_id = p_client_id AND visitor_ids @> ARRAY[p_from];
+
+  UPDATE user_identity_map
+  SET
+    visitor_ids = array_append(array_remove(array_remove(visitor_ids, p_from), p_to), p_to),
+    updated_at = now()
+  WHERE client_id = p_client_id AND visitor_ids @> ARRAY[p_from];
+
+  -- Point earlier aliases of the merged visitor at the survivor
+  UPDATE visitor_aliases SET visitor_id = p_to WHERE visitor_id = p_from;
+
+  INSERT INTO visitor_aliases (alias_visitor_id, visitor_id, client_id)
+  VALUES (p_from, p_to, p_client_id)
+  ON CONFLICT (alias_visitor_id) DO UPDATE
+  SET visitor_id = p_to;
+
+  DELETE FROM visitors WHERE visitor_id = p_from AND client_id = p_client_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,19 @@
+/*
+  # Ecommerce data from dataLayer
+
+  1. Changes
+    - Add `ecommerce` column to `events` for the value, currency, transaction
+      id and items of GA4 ecommerce events
+    - Add `transaction_id` column to `conversions`
+*/
+
+-- Add ecommerce column to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS ecommerce jsonb DEFAULT NULL;
+
+-- Add transaction_id column to conversions table
+ALTER TABLE conversions
+ADD COLUMN IF NOT EXISTS transaction_id text;
+
+CREATE INDEX IF NOT EXISTS idx_conversions_transaction_id
+ON conversions(client_id, transaction_id);
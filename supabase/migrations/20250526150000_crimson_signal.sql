@@ -0,0 +1,36 @@
+/*
+  # Declarative conversion triggers
+
+  1. New Tables
+    - `conversion_triggers`: Per-client rules the tracker evaluates in the
+      browser to record conversions without code changes
+      - `trigger_type`: url_match, click, form_submit or datalayer_event
+      - `match_value`: URL pattern, CSS selector, form id or dataLayer event
+        name, depending on the type
+*/
+
+-- Create conversion_triggers table
+CREATE TABLE IF NOT EXISTS conversion_triggers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  name text NOT NULL,
+  trigger_type text NOT NULL CHECK (trigger_type IN ('url_match', 'click', 'form_submit', 'datalayer_event')),
+  match_value text NOT NULL,
+  conversion_type text NOT NULL,
+  value numeric,
+  currency text,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_triggers_client_id ON conversion_triggers(client_id);
+
+-- Enable RLS
+ALTER TABLE conversion_triggers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their conversion triggers"
+  ON conversion_triggers
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
@@ -0,0 +1,24 @@
+/*
+  # Click-id registry
+
+  1. Changes
+    - Make sure `events` has the `click_ids` jsonb column holding every
+      registered click id (gclid, gbraid, wbraid, dclid, fbclid, _fbc, _fbp,
+      ttclid, msclkid, li_fat_id, twclid, ScCid, epik, irclickid)
+    - Add `ad_platform` column to `attribution_results`, naming the platform
+      the `ad_id` belongs to
+*/
+
+-- Add click_ids column to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS click_ids jsonb DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_click_ids
+ON events USING gin(click_ids);
+
+-- Add ad_platform column to attribution_results table
+ALTER TABLE attribution_results
+ADD COLUMN IF NOT EXISTS ad_platform text;
+
+CREATE INDEX IF NOT EXISTS idx_attribution_results_ad_platform
+ON attribution_results(ad_platform);
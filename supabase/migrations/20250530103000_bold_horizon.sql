@@ -0,0 +1,136 @@
+/*
+  # Channel classification
+
+  1. New Tables
+    - `channel_rules`: Per-client referrer rules, checked before the built-in
+      ones in `_shared/channels.ts`
+      - `domain`: Referrer hostname, matching subdomains; `example.*` matches
+        any TLD
+      - `source`, `medium`, `channel`: Values assigned to matching events
+      - `priority`: Higher priorities are checked first
+
+  2. Changes
+    - Add `source`, `medium` and `channel` columns to `events`, derived at
+      ingestion from UTM tags, click ids and the referrer. The raw `utm_*`
+      columns are kept as sent
+    - Add `channel` column to `attribution_results`
+    - Add `entry_channel` column to `sessions`
+
+  3. Functions
+    - `update_session()` now prefers the derived source and medium over the
+      raw referrer host for the session's entry fields
+*/
+
+-- Add derived traffic source columns to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS source text,
+ADD COLUMN IF NOT EXISTS medium text,
+ADD COLUMN IF NOT EXISTS channel text;
+
+CREATE INDEX IF NOT EXISTS idx_events_client_channel ON events(client_id, channel);
+
+-- Add channel column to attribution_results table
+ALTER TABLE attribution_results
+ADD COLUMN IF NOT EXISTS channel text;
+
+CREATE INDEX IF NOT EXISTS idx_attribution_results_channel ON attribution_results(channel);
+
+-- Add entry_channel column to sessions table
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS entry_channel text;
+
+-- Create channel_rules table
+CREATE TABLE IF NOT EXISTS channel_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  domain text NOT NULL,
+  source text NOT NULL,
+  medium text NOT NULL,
+  channel text NOT NULL CHECK (channel IN (
+    'paid_search', 'paid_social', 'display', 'affiliate', 'organic_search', 'organic_social',
+    'email', 'ai_assistant', 'referral', 'internal', 'direct', 'other'
+  )),
+  priority integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(client_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_rules_client_id ON channel_rules(client_id);
+
+-- Enable RLS
+ALTER TABLE channel_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their channel rules"
+  ON channel_rules
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Maintain sessions from events, using the derived traffic source
+CREATE OR REPLACE FUNCTION update_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sessions (
+    session_id,
+    visitor_id,
+    client_id,
+    started_at,
+    ended_at,
+    landing_page,
+    entry_source,
+    entry_medium,
+    entry_campaign,
+    entry_channel,
+    entry_referrer,
+    page_views,
+    engaged_time_ms,
+    has_conversion
+  )
+  VALUES (
+    NEW.session_id,
+    NEW.visitor_id,
+    NEW.client_id,
+    NEW.timestamp,
+    NEW.timestamp,
+    NEW.page_url,
+    COALESCE(NEW.utm_source, NEW.source, substring(NEW.referrer from '^https?://([^/:]+)'), 'direct'),
+    COALESCE(NEW.utm_medium, NEW.medium),
+    NEW.utm_campaign,
+    NEW.channel,
+    NEW.referrer,
+    CASE WHEN NEW.event_type = 'page_view' THEN 1 ELSE 0 END,
+    COALESCE(NEW.engaged_time_ms, 0),
+    NEW.event_type = 'conversion'
+  )
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    -- Events can arrive out of order from the tracker queue, so the earliest
+    -- event seen so far defines the entry fields
+    landing_page = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.landing_page ELSE sessions.landing_page END,
+    entry_source = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_source ELSE sessions.entry_source END,
+    entry_medium = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_medium ELSE sessions.entry_medium END,
+    entry_campaign = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_campaign ELSE sessions.entry_campaign END,
+    entry_channel = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_channel ELSE sessions.entry_channel END,
+    entry_referrer = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_referrer ELSE sessions.entry_referrer END,
+    started_at = LEAST(sessions.started_at, EXCLUDED.started_at),
+    ended_at = GREATEST(sessions.ended_at, EXCLUDED.ended_at),
+    page_views = sessions.page_views + EXCLUDED.page_views,
+    engaged_time_ms = sessions.engaged_time_ms + EXCLUDED.engaged_time_ms,
+    has_conversion = sessions.has_conversion OR EXCLUDED.has_conversion,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
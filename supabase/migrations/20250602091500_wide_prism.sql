@@ -0,0 +1,202 @@
+/*
+  # Channel groupings
+
+  1. New Tables
+    - `channel_groups`: Per-client named groupings of traffic, e.g. "Paid
+      Social" = source in (facebook, instagram, tiktok) and medium matching
+      `cpc|paid`
+      - `conditions`: Array of `{ field, operator, value }`, all of which must
+        match. Fields are source, medium, campaign, channel and referrer;
+        operators are equals, in, contains and matches (case-insensitive
+        regular expression)
+      - `color`: Colour used for the group in dashboard charts
+      - `priority`: Higher priorities are checked first
+
+  2. Changes
+    - Add `channel_group` column to `events` and `attribution_results`
+
+  3. Functions
+    - channel_group_matches: Evaluates a group's conditions against a hit
+    - resolve_channel_group: Returns the first matching group, falling back
+      to a default group named after the hit's channel
+    - resolve_channel_groups: Batch form of resolve_channel_group
+    - reapply_channel_groups: Re-evaluates a client's historical events and
+      attribution results after the groups change
+*/
+
+-- Add channel_group columns
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS channel_group text;
+
+CREATE INDEX IF NOT EXISTS idx_events_client_channel_group ON events(client_id, channel_group);
+
+ALTER TABLE attribution_results
+ADD COLUMN IF NOT EXISTS channel_group text;
+
+CREATE INDEX IF NOT EXISTS idx_attribution_results_channel_group ON attribution_results(channel_group);
+
+-- Create channel_groups table
+CREATE TABLE IF NOT EXISTS channel_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#888888',
+  conditions jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(conditions) = 'array'),
+  priority integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(client_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_channel_groups_client_id ON channel_groups(client_id);
+
+-- Enable RLS
+ALTER TABLE channel_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their channel groups"
+  ON channel_groups
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Create function to evaluate a group's conditions
+CREATE OR REPLACE FUNCTION channel_group_matches(p_conditions jsonb, p_values jsonb)
+RETURNS boolean AS $$
+DECLARE
+  v_condition jsonb;
+  v_value text;
+  v_match boolean;
+BEGIN
+  IF jsonb_array_length(p_conditions) = 0 THEN
+    RETURN false;
+  END IF;
+
+  FOR v_condition IN SELECT * FROM jsonb_array_elements(p_conditions)
+  LOOP
+    v_value := lower(COALESCE(p_values ->> (v_condition ->> 'field'), ''));
+
+    BEGIN
+      v_match := CASE v_condition ->> 'operator'
+        WHEN 'equals' THEN v_value = lower(v_condition ->> 'value')
+        WHEN 'in' THEN v_value IN (
+          SELECT lower(item) FROM jsonb_array_elements_text(v_condition -> 'value') AS item
+        )
+        WHEN 'contains' THEN position(lower(v_condition ->> 'value') IN v_value) > 0
+        WHEN 'matches' THEN v_value ~* (v_condition ->> 'value')
+        ELSE false
+      END;
+    EXCEPTION WHEN invalid_regular_expression OR invalid_parameter_value THEN
+      -- A broken pattern must not block ingestion
+      v_match := false;
+    END;
+
+    IF NOT COALESCE(v_match, false) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create function to find the channel group of a hit
+CREATE OR REPLACE FUNCTION resolve_channel_group(p_client_id uuid, p_values jsonb)
+RETURNS text AS $$
+DECLARE
+  v_group record;
+BEGIN
+  FOR v_group IN
+    SELECT name, conditions
+    FROM channel_groups
+    WHERE client_id = p_client_id AND is_active = true
+    ORDER BY priority DESC, created_at ASC
+  LOOP
+    IF channel_group_matches(v_group.conditions, p_values) THEN
+      RETURN v_group.name;
+    END IF;
+  END LOOP;
+
+  -- Events stored before channel classification have no channel
+  RETURN CASE COALESCE(
+    p_values ->> 'channel',
+    CASE WHEN COALESCE(p_values ->> 'source', 'direct') = 'direct' THEN 'direct' ELSE 'other' END
+  )
+    WHEN 'paid_search' THEN 'Paid Search'
+    WHEN 'paid_social' THEN 'Paid Social'
+    WHEN 'display' THEN 'Display'
+    WHEN 'affiliate' THEN 'Affiliate'
+    WHEN 'organic_search' THEN 'Organic Search'
+    WHEN 'organic_social' THEN 'Organic Social'
+    WHEN 'email' THEN 'Email'
+    WHEN 'ai_assistant' THEN 'AI Assistants'
+    WHEN 'referral' THEN 'Referral'
+    WHEN 'internal' THEN 'Internal'
+    WHEN 'direct' THEN 'Direct'
+    ELSE 'Other'
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function to resolve the groups of several hits at once, in order
+CREATE OR REPLACE FUNCTION resolve_channel_groups(p_client_id uuid, p_values jsonb)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(resolve_channel_group(p_client_id, item.value) ORDER BY item.ordinality), '{}')
+  FROM jsonb_array_elements(p_values) WITH ORDINALITY AS item(value, ordinality);
+$$ LANGUAGE sql STABLE;
+
+-- Create function to set the channel group of new events
+CREATE OR REPLACE FUNCTION set_event_channel_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.channel_group := resolve_channel_group(NEW.client_id, jsonb_build_object(
+    'source', COALESCE(NEW.utm_source, NEW.source),
+    'medium', COALESCE(NEW.utm_medium, NEW.medium),
+    'campaign', NEW.utm_campaign,
+    'channel', NEW.channel,
+    'referrer', NEW.referrer
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_event_channel_group_trigger ON events;
+CREATE TRIGGER set_event_channel_group_trigger
+  BEFORE INSERT ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION set_event_channel_group();
+
+-- Create function to re-evaluate historical data after the groups change
+CREATE OR REPLACE FUNCTION reapply_channel_groups(p_client_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF auth.role() <> 'service_role' AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to update channel groups for this client';
+  END IF;
+
+  UPDATE events
+  SET channel_group = resolve_channel_group(client_id, jsonb_build_object(
+    'source', COALESCE(utm_source, source),
+    'medium', COALESCE(utm_medium, medium),
+    'campaign', utm_campaign,
+    'channel', channel,
+    'referrer', referrer
+  ))
+  WHERE client_id = p_client_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE attribution_results
+  SET channel_group = resolve_channel_group(client_id, jsonb_build_object(
+    'source', source,
+    'medium', medium,
+    'campaign', campaign,
+    'channel', channel
+  ))
+  WHERE client_id = p_client_id;
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
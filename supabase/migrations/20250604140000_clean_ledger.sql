@@ -0,0 +1,306 @@
+/*
+  # UTM normalization
+
+  1. New Tables
+    - `utm_mappings`: Per-client rules that normalize UTM values at ingestion
+      - `field`: source, medium or campaign
+      - `match_type`: `regex` rewrites the value with `regexp_replace`
+        (case-insensitive, `\1` refers to a capture group); `alias` replaces
+        a value that equals `pattern` with `replacement`
+      - `priority`: Higher priorities are applied first
+
+  2. Changes
+    - Add `campaign` column to `events`. `source`, `medium` and `campaign` now
+      hold the normalized values; `utm_*` keep what the tracker sent
+
+  3. Functions
+    - normalize_utm_value: Trims and lowercases a value, applies the regex
+      rewrites in priority order, then the first matching alias
+    - normalize_utm_params: Batch form used by the ingestion functions
+    - list_unmapped_utm_values: Normalized sources and mediums no alias
+      covers, with event counts
+    - backfill_utm_normalization: Re-normalizes a client's stored events,
+      sessions and attribution results after the mappings change
+    - update_session, set_event_channel_group and reapply_channel_groups now
+      prefer the normalized values over the raw UTM parameters
+*/
+
+-- Add normalized campaign column to events table
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS campaign text;
+
+-- Create utm_mappings table
+CREATE TABLE IF NOT EXISTS utm_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  field text NOT NULL CHECK (field IN ('source', 'medium', 'campaign')),
+  match_type text NOT NULL CHECK (match_type IN ('alias', 'regex')),
+  pattern text NOT NULL,
+  replacement text NOT NULL,
+  priority integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(client_id, field, match_type, pattern)
+);
+
+CREATE INDEX IF NOT EXISTS idx_utm_mappings_client_field ON utm_mappings(client_id, field);
+
+-- Enable RLS
+ALTER TABLE utm_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their UTM mappings"
+  ON utm_mappings
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Create function to normalize a single UTM value
+CREATE OR REPLACE FUNCTION normalize_utm_value(p_client_id uuid, p_field text, p_value text)
+RETURNS text AS $$
+DECLARE
+  v_value text;
+  v_rule record;
+  v_alias text;
+BEGIN
+  v_value := NULLIF(lower(btrim(p_value)), '');
+  IF v_value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_rule IN
+    SELECT pattern, replacement
+    FROM utm_mappings
+    WHERE client_id = p_client_id AND field = p_field AND match_type = 'regex' AND is_active = true
+    ORDER BY priority DESC, created_at ASC
+  LOOP
+    BEGIN
+      v_value := regexp_replace(v_value, v_rule.pattern, v_rule.replacement, 'i');
+    EXCEPTION WHEN invalid_regular_expression THEN
+      -- A broken pattern must not block ingestion
+      CONTINUE;
+    END;
+  END LOOP;
+
+  SELECT replacement INTO v_alias
+  FROM utm_mappings
+  WHERE client_id = p_client_id AND field = p_field AND match_type = 'alias' AND is_active = true
+    AND lower(btrim(pattern)) = v_value
+  ORDER BY priority DESC, created_at ASC
+  LIMIT 1;
+
+  RETURN NULLIF(btrim(COALESCE(v_alias, v_value)), '');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Create function to normalize the UTM parameters of several events at once
+CREATE OR REPLACE FUNCTION normalize_utm_params(p_client_id uuid, p_params jsonb)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'source', normalize_utm_value(p_client_id, 'source', item.value ->> 'source'),
+      'medium', normalize_utm_value(p_client_id, 'medium', item.value ->> 'medium'),
+      'campaign', normalize_utm_value(p_client_id, 'campaign', item.value ->> 'campaign')
+    )
+    ORDER BY item.ordinality
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(p_params) WITH ORDINALITY AS item(value, ordinality);
+$$ LANGUAGE sql STABLE;
+
+-- Create function to list normalized values that no alias covers yet
+CREATE OR REPLACE FUNCTION list_unmapped_utm_values(p_client_id uuid, p_since timestamptz DEFAULT now() - interval '90 days')
+RETURNS TABLE (field text, value text, event_count bigint, raw_values text[]) AS $$
+  WITH utm_values AS (
+    SELECT 'source' AS field, lower(btrim(COALESCE(source, utm_source))) AS value, utm_source AS raw_value
+    FROM events
+    WHERE client_id = p_client_id AND timestamp >= p_since AND utm_source IS NOT NULL
+    UNION ALL
+    SELECT 'medium', lower(btrim(COALESCE(medium, utm_medium))), utm_medium
+    FROM events
+    WHERE client_id = p_client_id AND timestamp >= p_since AND utm_medium IS NOT NULL
+  ),
+  known_values AS (
+    SELECT field, lower(btrim(pattern)) AS value
+    FROM utm_mappings
+    WHERE client_id = p_client_id AND match_type = 'alias' AND is_active = true
+    UNION
+    SELECT field, lower(btrim(replacement))
+    FROM utm_mappings
+    WHERE client_id = p_client_id AND match_type = 'alias' AND is_active = true
+  )
+  SELECT
+    utm_values.field,
+    utm_values.value,
+    count(*) AS event_count,
+    (array_agg(DISTINCT utm_values.raw_value))[1:5] AS raw_values
+  FROM utm_values
+  WHERE NOT EXISTS (
+    SELECT 1 FROM known_values
+    WHERE known_values.field = utm_values.field
+      AND known_values.value = utm_values.value
+  )
+  GROUP BY 1, 2
+  ORDER BY event_count DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Maintain sessions from events, using the normalized values
+CREATE OR REPLACE FUNCTION update_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sessions (
+    session_id,
+    visitor_id,
+    client_id,
+    started_at,
+    ended_at,
+    landing_page,
+    entry_source,
+    entry_medium,
+    entry_campaign,
+    entry_channel,
+    entry_referrer,
+    page_views,
+    engaged_time_ms,
+    has_conversion
+  )
+  VALUES (
+    NEW.session_id,
+    NEW.visitor_id,
+    NEW.client_id,
+    NEW.timestamp,
+    NEW.timestamp,
+    NEW.page_url,
+    COALESCE(NEW.source, NEW.utm_source, substring(NEW.referrer from '^https?://([^/:]+)'), 'direct'),
+    COALESCE(NEW.medium, NEW.utm_medium),
+    COALESCE(NEW.campaign, NEW.utm_campaign),
+    NEW.channel,
+    NEW.referrer,
+    CASE WHEN NEW.event_type = 'page_view' THEN 1 ELSE 0 END,
+    COALESCE(NEW.engaged_time_ms, 0),
+    NEW.event_type = 'conversion'
+  )
+  ON CONFLICT (session_id) DO UPDATE
+  SET
+    -- Events can arrive out of order from the tracker queue, so the earliest
+    -- event seen so far defines the entry fields
+    landing_page = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.landing_page ELSE sessions.landing_page END,
+    entry_source = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_source ELSE sessions.entry_source END,
+    entry_medium = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_medium ELSE sessions.entry_medium END,
+    entry_campaign = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_campaign ELSE sessions.entry_campaign END,
+    entry_channel = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_channel ELSE sessions.entry_channel END,
+    entry_referrer = CASE WHEN EXCLUDED.started_at < sessions.started_at
+      THEN EXCLUDED.entry_referrer ELSE sessions.entry_referrer END,
+    started_at = LEAST(sessions.started_at, EXCLUDED.started_at),
+    ended_at = GREATEST(sessions.ended_at, EXCLUDED.ended_at),
+    page_views = sessions.page_views + EXCLUDED.page_views,
+    engaged_time_ms = sessions.engaged_time_ms + EXCLUDED.engaged_time_ms,
+    has_conversion = sessions.has_conversion OR EXCLUDED.has_conversion,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set the channel group of new events from the normalized values
+CREATE OR REPLACE FUNCTION set_event_channel_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.channel_group := resolve_channel_group(NEW.client_id, jsonb_build_object(
+    'source', COALESCE(NEW.source, NEW.utm_source),
+    'medium', COALESCE(NEW.medium, NEW.utm_medium),
+    'campaign', COALESCE(NEW.campaign, NEW.utm_campaign),
+    'channel', NEW.channel,
+    'referrer', NEW.referrer
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION reapply_channel_groups(p_client_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF auth.role() <> 'service_role' AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to update channel groups for this client';
+  END IF;
+
+  UPDATE events
+  SET channel_group = resolve_channel_group(client_id, jsonb_build_object(
+    'source', COALESCE(source, utm_source),
+    'medium', COALESCE(medium, utm_medium),
+    'campaign', COALESCE(campaign, utm_campaign),
+    'channel', channel,
+    'referrer', referrer
+  ))
+  WHERE client_id = p_client_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE attribution_results
+  SET channel_group = resolve_channel_group(client_id, jsonb_build_object(
+    'source', source,
+    'medium', medium,
+    'campaign', campaign,
+    'channel', channel
+  ))
+  WHERE client_id = p_client_id;
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create function to re-normalize stored data after the mappings change.
+-- Events are normalized again from their raw utm_* values; sessions and
+-- attribution results only keep normalized values, so they are normalized
+-- in place
+CREATE OR REPLACE FUNCTION backfill_utm_normalization(p_client_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF auth.role() <> 'service_role' AND p_client_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to update UTM values for this client';
+  END IF;
+
+  UPDATE events
+  SET
+    source = CASE WHEN utm_source IS NOT NULL
+      THEN normalize_utm_value(client_id, 'source', utm_source) ELSE source END,
+    medium = CASE WHEN utm_medium IS NOT NULL
+      THEN normalize_utm_value(client_id, 'medium', utm_medium) ELSE medium END,
+    campaign = normalize_utm_value(client_id, 'campaign', utm_campaign)
+  WHERE client_id = p_client_id
+    AND (utm_source IS NOT NULL OR utm_medium IS NOT NULL OR utm_campaign IS NOT NULL);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE sessions
+  SET
+    entry_source = COALESCE(normalize_utm_value(client_id, 'source', entry_source), entry_source),
+    entry_medium = normalize_utm_value(client_id, 'medium', entry_medium),
+    entry_campaign = normalize_utm_value(client_id, 'campaign', entry_campaign)
+  WHERE client_id = p_client_id;
+
+  UPDATE attribution_results
+  SET
+    source = COALESCE(normalize_utm_value(client_id, 'source', source), source),
+    medium = normalize_utm_value(client_id, 'medium', medium),
+    campaign = normalize_utm_value(client_id, 'campaign', campaign)
+  WHERE client_id = p_client_id;
+
+  -- Groups match on the normalized values
+  PERFORM reapply_channel_groups(p_client_id);
+
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,11 @@
+/*
+  # Pinned tracker versions
+
+  1. Changes
+    - Add `tracker_version` column to `clients`. When set, `serve-tracker`
+      answers the client's unversioned script URL with that published
+      version instead of the latest one
+*/
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS tracker_version text CHECK (tracker_version ~ '^\d+\.\d+\.\d+$');
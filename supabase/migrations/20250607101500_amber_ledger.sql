@@ -0,0 +1,13 @@
+/*
+  # Per-client tracker configuration
+
+  1. Changes
+    - Add `tracker_config` column to `clients`. It holds the tracker
+      settings edited on the dashboard (consent defaults, cookie domain,
+      cross-domain links, sampling), served by `event-capture` at
+      `/config` and applied by the tracker at startup
+*/
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS tracker_config jsonb NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(tracker_config) = 'object');
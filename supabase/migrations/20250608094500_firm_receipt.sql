@@ -0,0 +1,27 @@
+/*
+  # Idempotent ingestion
+
+  1. Changes
+    - Add `event_id` column to `events`, a key chosen by the sender (the
+      tracker uses a UUID per event) so a retried event is stored once
+    - Add `order_id` column to `conversions`, the sender's order or
+      transaction id, so a conversion sent twice is stored and attributed
+      once
+    - Both keys are unique per client, for as long as the row is kept.
+      Event ids are random and order ids name one order, so a key seen
+      again is always a resend, however late. A conversion without a
+      transaction id gets a key of its own from the tracker, which only its
+      retries share. Rows without a key are never considered duplicates
+*/
+
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS event_id text;
+
+ALTER TABLE events
+ADD CONSTRAINT events_client_event_id_key UNIQUE (client_id, event_id);
+
+ALTER TABLE conversions
+ADD COLUMN IF NOT EXISTS order_id text;
+
+ALTER TABLE conversions
+ADD CONSTRAINT conversions_client_order_id_key UNIQUE (client_id, order_id);
@@ -0,0 +1,58 @@
+/*
+  # Scoped API keys
+
+  1. New Tables
+    - `api_keys`: Keys for the server-side APIs, stored as SHA-256 hashes.
+      The key itself is only shown once, when it is created
+      - `name`: Label shown on the dashboard
+      - `key_prefix`: First characters of the key, to tell keys apart
+      - `key_hash`: Hex SHA-256 of the key
+      - `scopes`: Any of `ingest` (send events and conversions), `read`
+        (read attribution results) and `sync` (push attribution results to
+        the webhook)
+      - `last_used_at`: Updated on every authenticated request
+      - `revoked_at`: Set when the key is revoked or rotated
+
+  2. Changes
+    - Move every `clients.api_key` into `api_keys`, hashed and with all
+      scopes, and drop the plaintext column
+*/
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES clients(id) NOT NULL,
+  name text NOT NULL,
+  key_prefix text NOT NULL,
+  key_hash text UNIQUE NOT NULL CHECK (key_hash ~ '^[a-f0-9]{64}$'),
+  scopes text[] NOT NULL CHECK (
+    cardinality(scopes) > 0 AND scopes <@ ARRAY['ingest', 'read', 'sync']
+  ),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_client_id ON api_keys(client_id);
+
+-- Enable RLS
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can manage their API keys"
+  ON api_keys
+  FOR ALL
+  TO authenticated
+  USING (client_id = auth.uid());
+
+-- Keep the existing keys working
+INSERT INTO api_keys (client_id, name, key_prefix, key_hash, scopes)
+SELECT
+  id,
+  'Default key',
+  left(api_key, 12),
+  encode(sha256(convert_to(api_key, 'UTF8')), 'hex'),
+  ARRAY['ingest', 'read', 'sync']
+FROM clients
+WHERE api_key IS NOT NULL;
+
+ALTER TABLE clients
+DROP COLUMN IF EXISTS api_key;